@@ -0,0 +1,75 @@
+// scripts/bench-redactor.js
+// Compares redacting with a plain rule array (compiled on every call) against a
+// prebuilt CompiledRuleSet, simulating keystrokes in a chat composer.
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const REGEX_RULES = 300;
+const EXACT_RULES = 100;
+const KEYSTROKES = 200;
+
+function makeRules() {
+  const now = new Date().toISOString();
+  const base = { enabled: true, caseSensitive: false, createdAt: now, updatedAt: now };
+  const rules = [];
+
+  for (let i = 0; i < REGEX_RULES; i++) {
+    rules.push({ ...base, id: `regex-${i}`, type: 'regex', original: `TICKET-${i}-\\d{3,6}`, placeholder: `[TICKET_${i}]`, priority: i });
+  }
+  for (let i = 0; i < EXACT_RULES; i++) {
+    rules.push({ ...base, id: `exact-${i}`, type: 'exact', original: `Customer Name ${i}`, placeholder: `[CUSTOMER_${i}]`, boundary: 'word', priority: i });
+  }
+
+  return rules;
+}
+
+function makePrompt() {
+  const sentence = 'Please summarize the status of TICKET-42-12345 for Customer Name 7 and draft a reply. ';
+  return sentence.repeat(12);
+}
+
+function measure(label, run) {
+  // Warm up so both paths are measured with optimized code
+  for (let i = 0; i < 20; i++) run(i);
+
+  const start = performance.now();
+  for (let i = 0; i < KEYSTROKES; i++) run(i);
+  const perCall = (performance.now() - start) / KEYSTROKES;
+
+  console.log(`${label.padEnd(28)} ${perCall.toFixed(3)} ms/keystroke`);
+  return perCall;
+}
+
+const server = await createServer({
+  root: path.resolve(__dirname, '..'),
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+  const { redact, CompiledRuleSet } = await server.ssrLoadModule('/src/content-scripts/shared/redactor.ts');
+  const { RedactionVault } = await server.ssrLoadModule('/src/content-scripts/shared/redaction-vault.ts');
+
+  const rules = makeRules();
+  const prompt = makePrompt();
+  const vault = new RedactionVault();
+  // Each keystroke redacts the prompt typed so far
+  const typed = (i) => prompt.slice(0, Math.ceil(((i % KEYSTROKES) + 1) * (prompt.length / KEYSTROKES)));
+
+  console.log(`${rules.length} rules, prompt of ${prompt.length} characters, ${KEYSTROKES} keystrokes\n`);
+
+  const uncached = measure('Rule[] (compile per call)', (i) => redact(typed(i), rules, vault));
+  const ruleSet = new CompiledRuleSet(rules);
+  const cached = measure('CompiledRuleSet', (i) => redact(typed(i), ruleSet, vault));
+
+  console.log(`\nSpeed-up: ${(uncached / cached).toFixed(1)}x`);
+} finally {
+  await server.close();
+}
@@ -1,12 +1,18 @@
-import type { Rule, SiteSettings, SiteSettingsMap, SupportedSite } from '../types';
+import type { Rule, RuleException, SiteSettings, SiteSettingsMap, SupportedSite } from '../types';
+import { hydrateDictionaries } from '../lib/dictionaryStorage';
+import { ensurePseudonymKey } from '../lib/pseudonymKey';
 
 async function initializeStorage(): Promise<void> {
-  const result = await chrome.storage.local.get(['rules', 'siteSettings', 'settings']);
+  const result = await chrome.storage.local.get(['rules', 'exceptions', 'siteSettings', 'settings']);
 
   if (!result.rules) {
     await chrome.storage.local.set({ rules: [] as Rule[] });
   }
 
+  if (!result.exceptions) {
+    await chrome.storage.local.set({ exceptions: [] as RuleException[] });
+  }
+
   if (!result.siteSettings) {
     const defaultSiteSettings: SiteSettingsMap = {
       'chatgpt.com': { enabled: true, lastUsed: null },
@@ -24,6 +30,8 @@ async function initializeStorage(): Promise<void> {
     };
     await chrome.storage.local.set({ settings: defaultSettings });
   }
+
+  await ensurePseudonymKey();
 }
 export async function getRules(): Promise<Rule[]> {
   const result = await chrome.storage.local.get(['rules']);
@@ -51,6 +59,11 @@ export async function deleteRule(id: string): Promise<void> {
   await chrome.storage.local.set({ rules: filtered });
 }
 
+export async function getExceptions(): Promise<RuleException[]> {
+  const result = await chrome.storage.local.get(['exceptions']);
+  return result.exceptions || [];
+}
+
 export async function getSiteSettings(): Promise<SiteSettingsMap> {
   const result = await chrome.storage.local.get(['siteSettings']);
   return result.siteSettings || {};
@@ -64,15 +77,35 @@ export async function updateSiteSettings(site: SupportedSite, settings: SiteSett
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type === 'GET_RULES') {
-    getRules().then(sendResponse);
+    // Content scripts need dictionary terms to match, so attach them here
+    getRules().then(hydrateDictionaries).then(sendResponse);
     return true; // Indicates async response
   }
 
+  if (message.type === 'GET_EXCEPTIONS') {
+    getExceptions().then(sendResponse);
+    return true;
+  }
+
+  if (message.type === 'GET_PSEUDONYM_KEY') {
+    ensurePseudonymKey().then(sendResponse);
+    return true;
+  }
+
   if (message.type === 'GET_SITE_SETTINGS') {
     getSiteSettings().then(sendResponse);
     return true;
   }
 
+  if (message.type === 'FLAG_SLOW_RULE') {
+    const { id, elapsedMs } = message.payload;
+    updateRule(id, {
+      enabled: false,
+      health: { status: 'too-slow', source: 'runtime', elapsedMs, flaggedAt: new Date().toISOString() },
+    });
+    return false;
+  }
+
   if (message.type === 'UPDATE_SITE_LAST_USED') {
     const { site } = message.payload;
     getSiteSettings().then((settings) => {
@@ -1,15 +1,19 @@
-import type { Rule } from '../types';
-import { redact } from './shared/redactor';
+import { redact, mapOffset, CompiledRuleSet } from './shared/redactor';
+import { sessionVault } from './shared/redaction-vault';
 import { setupClipboard, updateClipboardRules } from './shared/clipboard';
 import {
   waitForElement,
   getRulesFromStorage,
+  getExceptionsFromStorage,
+  compileRules,
+  loadPseudonymKey,
   onRulesChanged,
   log,
   logError,
   isSiteEnabled,
   updateSiteLastUsed,
 } from './shared/utils';
+import { guardSend } from './shared/send-guard';
 import { EditModeMonitor, type EditModeConfig } from './shared/edit-mode-monitor';
 
 const SITE_NAME = 'chatgpt.com';
@@ -27,7 +31,7 @@ const EDIT_MODE_CONFIG: EditModeConfig = {
   cancelButtonSelector: 'button.btn-secondary',
 };
 
-let rules: Rule[] = [];
+let ruleSet = new CompiledRuleSet([]);
 let isEnabled = false;
 let editModeMonitor: EditModeMonitor | null = null;
 
@@ -44,23 +48,25 @@ async function init(): Promise<void> {
       return;
     }
 
-    rules = await getRulesFromStorage();
-    log(`Loaded ${rules.length} rules`);
+    // Compile once here and on every rule change, not on each keystroke
+    ruleSet = compileRules(await getRulesFromStorage(), await getExceptionsFromStorage());
+    await loadPseudonymKey();
+    log(`Loaded ${ruleSet.rules.length} rules`);
 
     updateSiteLastUsed(SITE_NAME);
 
-    setupClipboard(rules, SELECTORS.responseContainer);
+    setupClipboard(ruleSet, SELECTORS.responseContainer);
 
     await setupInputRedaction();
 
-    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, rules, isEnabled);
+    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, ruleSet, isEnabled);
     log('Edit mode monitoring initialized');
 
-    onRulesChanged((newRules) => {
+    onRulesChanged((newRules, newExceptions) => {
       log('Rules updated', newRules);
-      rules = newRules;
-      updateClipboardRules(newRules);
-      editModeMonitor?.updateRules(newRules);
+      ruleSet = compileRules(newRules, newExceptions);
+      updateClipboardRules(ruleSet);
+      editModeMonitor?.updateRules(ruleSet);
     });
 
     log('Initialization complete');
@@ -153,27 +159,25 @@ function setupProseMirrorInterception(element: HTMLDivElement): void {
       const currentText = getEditorText();
       lastCapturedText = currentText;
 
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
-      const result = redact(currentText, rules);
+      const selection = window.getSelection();
+      let cursorOffset = 0;
 
-      if (result.appliedRules.length > 0) {
-        log(`Real-time redaction: "${currentText}" → "${result.text}"`);
+      if (selection && selection.rangeCount > 0) {
+        const range = selection.getRangeAt(0);
+        const preCaretRange = range.cloneRange();
+        preCaretRange.selectNodeContents(element);
+        preCaretRange.setEnd(range.endContainer, range.endOffset);
+        cursorOffset = preCaretRange.toString().length;
+      }
 
-        const selection = window.getSelection();
-        let cursorOffset = 0;
+      const result = redact(currentText, ruleSet, sessionVault, { caret: cursorOffset });
 
-        if (selection && selection.rangeCount > 0) {
-          const range = selection.getRangeAt(0);
-          const preCaretRange = range.cloneRange();
-          preCaretRange.selectNodeContents(element);
-          preCaretRange.setEnd(range.endContainer, range.endOffset);
-          cursorOffset = preCaretRange.toString().length;
-        }
-
-        const lengthDiff = result.text.length - currentText.length;
+      if (result.appliedRules.length > 0) {
+        log(`Real-time redaction: "${currentText}" → "${result.text}"`);
 
         element.innerHTML = '<p></p>';
         const paragraph = element.querySelector('p');
@@ -187,7 +191,7 @@ function setupProseMirrorInterception(element: HTMLDivElement): void {
           const textNode = paragraph.firstChild;
 
           if (textNode) {
-            let newOffset = cursorOffset + lengthDiff;
+            let newOffset = mapOffset(result.matches, cursorOffset);
 
             const maxOffset = textNode.textContent?.length || 0;
             newOffset = Math.max(0, Math.min(newOffset, maxOffset));
@@ -211,7 +215,7 @@ function setupProseMirrorInterception(element: HTMLDivElement): void {
   element.addEventListener(
     'paste',
     (e: ClipboardEvent) => {
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
@@ -221,7 +225,7 @@ function setupProseMirrorInterception(element: HTMLDivElement): void {
         return;
       }
 
-      const result = redact(pastedText, rules);
+      const result = redact(pastedText, ruleSet, sessionVault);
 
       if (result.appliedRules.length > 0) {
         log(`Paste detected - Redacting: "${pastedText}" → "${result.text}"`);
@@ -253,57 +257,66 @@ function setupProseMirrorInterception(element: HTMLDivElement): void {
     true
   );
 
-  document.addEventListener(
-    'click',
-    (e: MouseEvent) => {
-      if (isRedacting) return;
+  /**
+   * Redact the whole message in place before it is sent, including what live redaction held at the caret
+   * @returns Whether the text changed
+   */
+  function redactForSend(): boolean {
+    const textContent = getEditorText();
 
-      const target = e.target as HTMLElement;
-      const submitButton = target.closest('button[data-testid="send-button"]');
+    if (!textContent || !isEnabled) {
+      return false;
+    }
 
-      if (submitButton) {
-        const textContent = getEditorText();
+    const result = redact(textContent, ruleSet, sessionVault);
+    log(`Sending - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`);
 
-        if (!textContent || !isEnabled) {
-          return;
-        }
+    if (result.appliedRules.length === 0) {
+      return false;
+    }
 
-        const result = redact(textContent, rules);
-        log(
-          `Button clicked - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`
-        );
+    element.innerHTML = '<p></p>';
+    element.focus();
 
-        if (result.appliedRules.length > 0) {
-          log(`Button clicked - Preventing and redacting: "${textContent}" → "${result.text}"`);
+    const paragraph = element.querySelector('p');
+    if (paragraph) {
+      paragraph.textContent = result.text;
+    }
 
-          e.preventDefault();
-          e.stopPropagation();
-          e.stopImmediatePropagation();
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+    return true;
+  }
 
-          isRedacting = true;
+  document.addEventListener(
+    'click',
+    (e: MouseEvent) => {
+      if (isRedacting) return;
 
-          element.innerHTML = '<p></p>';
-          element.focus();
+      const target = e.target as HTMLElement;
+      const submitButton = target.closest(SELECTORS.submitButton);
 
-          const paragraph = element.querySelector('p');
-          if (paragraph) {
-            paragraph.textContent = result.text;
-          }
+      if (submitButton && redactForSend()) {
+        log('Button clicked - Preventing and resubmitting redacted text');
 
-          element.dispatchEvent(new Event('input', { bubbles: true }));
-          element.dispatchEvent(new Event('change', { bubbles: true }));
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
 
-          setTimeout(() => {
-            log('Resubmitting with button click');
-            isRedacting = false;
-            (submitButton as HTMLButtonElement).click();
-          }, 100);
-        }
+        isRedacting = true;
+
+        setTimeout(() => {
+          log('Resubmitting with button click');
+          isRedacting = false;
+          (submitButton as HTMLButtonElement).click();
+        }, 100);
       }
     },
     true
   );
 
+  guardSend({ element, submitButtonSelector: SELECTORS.submitButton, redactForSend });
+
   log('ProseMirror interception setup complete');
 }
 
@@ -326,21 +339,19 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
 
       const currentText = textarea.value;
 
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
-      const result = redact(currentText, rules);
+      const cursorPosition = textarea.selectionStart;
+      const result = redact(currentText, ruleSet, sessionVault, { caret: cursorPosition });
 
       if (result.appliedRules.length > 0) {
         log(`Real-time redaction: "${currentText}" → "${result.text}"`);
 
-        const cursorPosition = textarea.selectionStart;
-        const lengthDiff = result.text.length - currentText.length;
-
         textarea.value = result.text;
 
-        const newPosition = Math.max(0, Math.min(cursorPosition + lengthDiff, result.text.length));
+        const newPosition = Math.max(0, Math.min(mapOffset(result.matches, cursorPosition), result.text.length));
         textarea.setSelectionRange(newPosition, newPosition);
 
         textarea.dispatchEvent(new Event('input', { bubbles: true }));
@@ -352,7 +363,7 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
   textarea.addEventListener(
     'paste',
     (e: ClipboardEvent) => {
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
@@ -362,7 +373,7 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
         return;
       }
 
-      const result = redact(pastedText, rules);
+      const result = redact(pastedText, ruleSet, sessionVault);
 
       if (result.appliedRules.length > 0) {
         log(`Paste detected - Redacting: "${pastedText}" → "${result.text}"`);
@@ -387,52 +398,61 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
     true
   );
 
-  document.addEventListener(
-    'click',
-    (e: MouseEvent) => {
-      if (isRedacting) return;
+  /**
+   * Redact the whole message in place before it is sent, including what live redaction held at the caret
+   * @returns Whether the text changed
+   */
+  function redactForSend(): boolean {
+    const textContent = textarea.value;
 
-      const target = e.target as HTMLElement;
-      const submitButton = target.closest('button[data-testid="send-button"]');
+    if (!textContent || !isEnabled) {
+      return false;
+    }
 
-      if (submitButton) {
-        const textContent = textarea.value;
+    const result = redact(textContent, ruleSet, sessionVault);
+    log(`Sending - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`);
 
-        if (!textContent || !isEnabled) {
-          return;
-        }
+    if (result.appliedRules.length === 0) {
+      return false;
+    }
+
+    textarea.value = result.text;
+    textarea.focus();
 
-        const result = redact(textContent, rules);
-        log(
-          `Button clicked - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`
-        );
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    textarea.dispatchEvent(new Event('change', { bubbles: true }));
+    return true;
+  }
 
-        if (result.appliedRules.length > 0) {
-          log(`Button clicked - Preventing and redacting: "${textContent}" → "${result.text}"`);
+  document.addEventListener(
+    'click',
+    (e: MouseEvent) => {
+      if (isRedacting) return;
 
-          e.preventDefault();
-          e.stopPropagation();
-          e.stopImmediatePropagation();
+      const target = e.target as HTMLElement;
+      const submitButton = target.closest(SELECTORS.submitButton);
 
-          isRedacting = true;
+      if (submitButton && redactForSend()) {
+        log('Button clicked - Preventing and resubmitting redacted text');
 
-          textarea.value = result.text;
-          textarea.focus();
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
 
-          textarea.dispatchEvent(new Event('input', { bubbles: true }));
-          textarea.dispatchEvent(new Event('change', { bubbles: true }));
+        isRedacting = true;
 
-          setTimeout(() => {
-            log('Resubmitting with button click');
-            isRedacting = false;
-            (submitButton as HTMLButtonElement).click();
-          }, 100);
-        }
+        setTimeout(() => {
+          log('Resubmitting with button click');
+          isRedacting = false;
+          (submitButton as HTMLButtonElement).click();
+        }, 100);
       }
     },
     true
   );
 
+  guardSend({ element: textarea, submitButtonSelector: SELECTORS.submitButton, redactForSend });
+
   log('Textarea interception setup complete');
 }
 
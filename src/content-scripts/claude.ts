@@ -1,15 +1,19 @@
-import type { Rule } from '../types';
-import { redact } from './shared/redactor';
+import { redact, mapOffset, CompiledRuleSet } from './shared/redactor';
+import { sessionVault } from './shared/redaction-vault';
 import { setupClipboard, updateClipboardRules } from './shared/clipboard';
 import {
   waitForElement,
   getRulesFromStorage,
+  getExceptionsFromStorage,
+  compileRules,
+  loadPseudonymKey,
   onRulesChanged,
   log,
   logError,
   isSiteEnabled,
   updateSiteLastUsed,
 } from './shared/utils';
+import { guardSend } from './shared/send-guard';
 import { EditModeMonitor, type EditModeConfig } from './shared/edit-mode-monitor';
 
 const SITE_NAME = 'claude.ai';
@@ -27,7 +31,7 @@ const EDIT_MODE_CONFIG: EditModeConfig = {
   cancelButtonSelector: undefined,
 };
 
-let rules: Rule[] = [];
+let ruleSet = new CompiledRuleSet([]);
 let isEnabled = false;
 let editModeMonitor: EditModeMonitor | null = null;
 
@@ -44,23 +48,25 @@ async function init(): Promise<void> {
       return;
     }
 
-    rules = await getRulesFromStorage();
-    log(`Loaded ${rules.length} rules`);
+    // Compile once here and on every rule change, not on each keystroke
+    ruleSet = compileRules(await getRulesFromStorage(), await getExceptionsFromStorage());
+    await loadPseudonymKey();
+    log(`Loaded ${ruleSet.rules.length} rules`);
 
     updateSiteLastUsed(SITE_NAME);
 
-    setupClipboard(rules, SELECTORS.responseContainer);
+    setupClipboard(ruleSet, SELECTORS.responseContainer);
 
     await setupInputRedaction();
 
-    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, rules, isEnabled);
+    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, ruleSet, isEnabled);
     log('Edit mode monitoring initialized');
 
-    onRulesChanged((newRules) => {
+    onRulesChanged((newRules, newExceptions) => {
       log('Rules updated', newRules);
-      rules = newRules;
-      updateClipboardRules(newRules);
-      editModeMonitor?.updateRules(newRules);
+      ruleSet = compileRules(newRules, newExceptions);
+      updateClipboardRules(ruleSet);
+      editModeMonitor?.updateRules(ruleSet);
     });
 
     log('Initialization complete');
@@ -144,28 +150,26 @@ function setupClaudeInterception(element: HTMLDivElement): void {
      const currentText = getEditorText();
      lastCapturedText = currentText;
 
-     if (!isEnabled || rules.length === 0) {
+     if (!isEnabled || ruleSet.isEmpty) {
        return;
      }
 
-     const result = redact(currentText, rules);
+     const selection = window.getSelection();
+     let cursorOffset = 0;
+     
+     if (selection && selection.rangeCount > 0) {
+       const range = selection.getRangeAt(0);
+       const preCaretRange = range.cloneRange();
+       preCaretRange.selectNodeContents(element);
+       preCaretRange.setEnd(range.endContainer, range.endOffset);
+       cursorOffset = preCaretRange.toString().length;
+     }
+
+     const result = redact(currentText, ruleSet, sessionVault, { caret: cursorOffset });
 
      if (result.appliedRules.length > 0) {
        log(`Real-time redaction: "${currentText}" → "${result.text}"`);
 
-       const selection = window.getSelection();
-       let cursorOffset = 0;
-       
-       if (selection && selection.rangeCount > 0) {
-         const range = selection.getRangeAt(0);
-         const preCaretRange = range.cloneRange();
-         preCaretRange.selectNodeContents(element);
-         preCaretRange.setEnd(range.endContainer, range.endOffset);
-         cursorOffset = preCaretRange.toString().length;
-       }
-
-       const lengthDiff = result.text.length - currentText.length;
-
        element.innerHTML = '<p></p>';
        const paragraph = element.querySelector('p');
        if (paragraph) {
@@ -178,7 +182,7 @@ function setupClaudeInterception(element: HTMLDivElement): void {
          const textNode = paragraph.firstChild;
          
          if (textNode) {
-           let newOffset = cursorOffset + lengthDiff;
+           let newOffset = mapOffset(result.matches, cursorOffset);
            
            const maxOffset = textNode.textContent?.length || 0;
            newOffset = Math.max(0, Math.min(newOffset, maxOffset));
@@ -198,7 +202,7 @@ function setupClaudeInterception(element: HTMLDivElement): void {
    }, true);
 
    element.addEventListener('paste', (e: ClipboardEvent) => {
-     if (!isEnabled || rules.length === 0) {
+     if (!isEnabled || ruleSet.isEmpty) {
        return;
      }
 
@@ -208,7 +212,7 @@ function setupClaudeInterception(element: HTMLDivElement): void {
        return;
      }
 
-     const result = redact(pastedText, rules);
+     const result = redact(pastedText, ruleSet, sessionVault);
 
      if (result.appliedRules.length > 0) {
        log(`Paste detected - Redacting: "${pastedText}" → "${result.text}"`);
@@ -238,24 +242,47 @@ function setupClaudeInterception(element: HTMLDivElement): void {
      }
    }, true);
 
-  document.addEventListener('click', (e: MouseEvent) => {
-    if (isRedacting) return;
+  /**
+   * Redact the whole message in place before it is sent, including what live redaction held at the caret
+   * @returns Whether the text changed
+   */
+  function redactForSend(): boolean {
+    const textContent = getEditorText();
 
-    const target = e.target as HTMLElement;
-    const submitButton = target.closest('button[aria-label="Send message"]');
+    if (!textContent || !isEnabled) {
+      return false;
+    }
 
-    if (submitButton) {
-      const textContent = getEditorText();
+    const result = redact(textContent, ruleSet, sessionVault);
+    log(`Sending - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`);
 
-      if (!textContent || !isEnabled) {
-        return;
-      }
+    if (result.appliedRules.length === 0) {
+      return false;
+    }
 
-      const result = redact(textContent, rules);
-      log(`Button clicked - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`);
+    element.innerHTML = '<p></p>';
+    element.focus();
 
-      if (result.appliedRules.length > 0) {
-        log(`Button clicked - Preventing and redacting: "${textContent}" → "${result.text}"`);
+    const paragraph = element.querySelector('p');
+    if (paragraph) {
+      paragraph.textContent = result.text;
+    }
+
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+    return true;
+  }
+
+  document.addEventListener(
+    'click',
+    (e: MouseEvent) => {
+      if (isRedacting) return;
+
+      const target = e.target as HTMLElement;
+      const submitButton = target.closest(SELECTORS.submitButton);
+
+      if (submitButton && redactForSend()) {
+        log('Button clicked - Preventing and resubmitting redacted text');
 
         e.preventDefault();
         e.stopPropagation();
@@ -263,25 +290,17 @@ function setupClaudeInterception(element: HTMLDivElement): void {
 
         isRedacting = true;
 
-        element.innerHTML = '<p></p>';
-        element.focus();
-
-        const paragraph = element.querySelector('p');
-        if (paragraph) {
-          paragraph.textContent = result.text;
-        }
-
-        element.dispatchEvent(new Event('input', { bubbles: true }));
-        element.dispatchEvent(new Event('change', { bubbles: true }));
-
         setTimeout(() => {
           log('Resubmitting with button click');
           isRedacting = false;
           (submitButton as HTMLButtonElement).click();
         }, 100);
       }
-    }
-  }, true);
+    },
+    true
+  );
+
+  guardSend({ element, submitButtonSelector: SELECTORS.submitButton, redactForSend });
 
   log('Claude interception setup complete');
 }
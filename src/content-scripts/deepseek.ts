@@ -1,15 +1,19 @@
-import type { Rule } from '../types';
-import { redact } from './shared/redactor';
+import { redact, mapOffset, CompiledRuleSet } from './shared/redactor';
+import { sessionVault } from './shared/redaction-vault';
 import { setupClipboard, updateClipboardRules } from './shared/clipboard';
 import {
   waitForElement,
   getRulesFromStorage,
+  getExceptionsFromStorage,
+  compileRules,
+  loadPseudonymKey,
   onRulesChanged,
   log,
   logError,
   isSiteEnabled,
   updateSiteLastUsed,
 } from './shared/utils';
+import { guardSend } from './shared/send-guard';
 import { EditModeMonitor, type EditModeConfig } from './shared/edit-mode-monitor';
 
 const SITE_NAME = 'chat.deepseek.com';
@@ -27,7 +31,7 @@ const EDIT_MODE_CONFIG: EditModeConfig = {
   cancelButtonSelector: undefined,
 };
 
-let rules: Rule[] = [];
+let ruleSet = new CompiledRuleSet([]);
 let isEnabled = false;
 let editModeMonitor: EditModeMonitor | null = null;
 
@@ -44,23 +48,25 @@ async function init(): Promise<void> {
       return;
     }
 
-    rules = await getRulesFromStorage();
-    log(`Loaded ${rules.length} rules`);
+    // Compile once here and on every rule change, not on each keystroke
+    ruleSet = compileRules(await getRulesFromStorage(), await getExceptionsFromStorage());
+    await loadPseudonymKey();
+    log(`Loaded ${ruleSet.rules.length} rules`);
 
     updateSiteLastUsed(SITE_NAME);
 
-    setupClipboard(rules, SELECTORS.responseContainer);
+    setupClipboard(ruleSet, SELECTORS.responseContainer);
 
     await setupInputRedaction();
 
-    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, rules, isEnabled);
+    editModeMonitor = new EditModeMonitor(EDIT_MODE_CONFIG, ruleSet, isEnabled);
     log('Edit mode monitoring initialized');
 
-    onRulesChanged((newRules) => {
+    onRulesChanged((newRules, newExceptions) => {
       log('Rules updated', newRules);
-      rules = newRules;
-      updateClipboardRules(newRules);
-      editModeMonitor?.updateRules(newRules);
+      ruleSet = compileRules(newRules, newExceptions);
+      updateClipboardRules(ruleSet);
+      editModeMonitor?.updateRules(ruleSet);
     });
 
     log('Initialization complete');
@@ -114,21 +120,19 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
 
       const currentText = textarea.value;
 
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
-      const result = redact(currentText, rules);
+      const cursorPosition = textarea.selectionStart;
+      const result = redact(currentText, ruleSet, sessionVault, { caret: cursorPosition });
 
       if (result.appliedRules.length > 0) {
         log(`Real-time redaction: "${currentText}" → "${result.text}"`);
 
-        const cursorPosition = textarea.selectionStart;
-        const lengthDiff = result.text.length - currentText.length;
-
         textarea.value = result.text;
 
-        const newPosition = Math.max(0, Math.min(cursorPosition + lengthDiff, result.text.length));
+        const newPosition = Math.max(0, Math.min(mapOffset(result.matches, cursorPosition), result.text.length));
         textarea.setSelectionRange(newPosition, newPosition);
 
         textarea.dispatchEvent(new Event('input', { bubbles: true }));
@@ -140,7 +144,7 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
   textarea.addEventListener(
     'paste',
     (e: ClipboardEvent) => {
-      if (!isEnabled || rules.length === 0) {
+      if (!isEnabled || ruleSet.isEmpty) {
         return;
       }
 
@@ -150,7 +154,7 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
         return;
       }
 
-      const result = redact(pastedText, rules);
+      const result = redact(pastedText, ruleSet, sessionVault);
 
       if (result.appliedRules.length > 0) {
         log(`Paste detected - Redacting: "${pastedText}" → "${result.text}"`);
@@ -175,52 +179,61 @@ function setupTextareaInterception(textarea: HTMLTextAreaElement): void {
     true
   );
 
-  document.addEventListener(
-    'click',
-    (e: MouseEvent) => {
-      if (isRedacting) return;
+  /**
+   * Redact the whole message in place before it is sent, including what live redaction held at the caret
+   * @returns Whether the text changed
+   */
+  function redactForSend(): boolean {
+    const textContent = textarea.value;
 
-      const target = e.target as HTMLElement;
-      const submitButton = target.closest('button[type="submit"]');
+    if (!textContent || !isEnabled) {
+      return false;
+    }
 
-      if (submitButton) {
-        const textContent = textarea.value;
+    const result = redact(textContent, ruleSet, sessionVault);
+    log(`Sending - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`);
 
-        if (!textContent || !isEnabled) {
-          return;
-        }
+    if (result.appliedRules.length === 0) {
+      return false;
+    }
 
-        const result = redact(textContent, rules);
-        log(
-          `Button clicked - Text: "${textContent}", Redacted: "${result.text}", Rules applied: ${result.appliedRules.length}`
-        );
+    textarea.value = result.text;
+    textarea.focus();
 
-        if (result.appliedRules.length > 0) {
-          log(`Button clicked - Preventing and redacting: "${textContent}" → "${result.text}"`);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    textarea.dispatchEvent(new Event('change', { bubbles: true }));
+    return true;
+  }
 
-          e.preventDefault();
-          e.stopPropagation();
-          e.stopImmediatePropagation();
+  document.addEventListener(
+    'click',
+    (e: MouseEvent) => {
+      if (isRedacting) return;
 
-          isRedacting = true;
+      const target = e.target as HTMLElement;
+      const submitButton = target.closest(SELECTORS.submitButton);
 
-          textarea.value = result.text;
-          textarea.focus();
+      if (submitButton && redactForSend()) {
+        log('Button clicked - Preventing and resubmitting redacted text');
 
-          textarea.dispatchEvent(new Event('input', { bubbles: true }));
-          textarea.dispatchEvent(new Event('change', { bubbles: true }));
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
 
-          setTimeout(() => {
-            log('Resubmitting with button click');
-            isRedacting = false;
-            (submitButton as HTMLButtonElement).click();
-          }, 100);
-        }
+        isRedacting = true;
+
+        setTimeout(() => {
+          log('Resubmitting with button click');
+          isRedacting = false;
+          (submitButton as HTMLButtonElement).click();
+        }, 100);
       }
     },
     true
   );
 
+  guardSend({ element: textarea, submitButtonSelector: SELECTORS.submitButton, redactForSend });
+
   log('Textarea interception setup complete');
 }
 
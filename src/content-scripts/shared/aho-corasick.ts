@@ -0,0 +1,106 @@
+export interface TermMatch {
+  start: number;                 // Start offset in the searched text (inclusive)
+  end: number;                   // End offset in the searched text (exclusive)
+}
+
+interface AutomatonNode {
+  next: Map<string, number>;     // Goto transitions by UTF-16 code unit
+  fail: number;                  // Longest proper suffix that is also a trie prefix
+  output: number[];              // Lengths of the terms ending at this node
+}
+
+/**
+ * Lower-case a text one code unit at a time so offsets stay aligned with the input
+ */
+function foldCase(text: string): string {
+  let folded = '';
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    folded += lower.length === char.length ? lower : char;
+  }
+  return folded;
+}
+
+/**
+ * Aho-Corasick automaton for matching thousands of terms in one scan
+ * Build cost is linear in the total term length; search is linear in the text length
+ * plus the number of matches, independent of how many terms there are.
+ */
+export class AhoCorasick {
+  private nodes: AutomatonNode[] = [{ next: new Map(), fail: 0, output: [] }];
+  private caseSensitive: boolean;
+
+  constructor(terms: string[], caseSensitive: boolean) {
+    this.caseSensitive = caseSensitive;
+    for (const term of terms) {
+      if (term) {
+        this.insert(caseSensitive ? term : foldCase(term));
+      }
+    }
+    this.buildFailureLinks();
+  }
+
+  private insert(term: string): void {
+    let state = 0;
+    for (let i = 0; i < term.length; i++) {
+      const char = term[i];
+      let next = this.nodes[state].next.get(char);
+      if (next === undefined) {
+        next = this.nodes.length;
+        this.nodes.push({ next: new Map(), fail: 0, output: [] });
+        this.nodes[state].next.set(char, next);
+      }
+      state = next;
+    }
+    if (!this.nodes[state].output.includes(term.length)) {
+      this.nodes[state].output.push(term.length);
+    }
+  }
+
+  private buildFailureLinks(): void {
+    const queue: number[] = [];
+
+    for (const child of this.nodes[0].next.values()) {
+      queue.push(child);
+    }
+
+    // Breadth-first, so every failure target is finished before it is used
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+
+      for (const [char, child] of this.nodes[state].next) {
+        let fail = this.nodes[state].fail;
+        while (fail !== 0 && !this.nodes[fail].next.has(char)) {
+          fail = this.nodes[fail].fail;
+        }
+        const target = this.nodes[fail].next.get(char);
+        this.nodes[child].fail = target !== undefined && target !== child ? target : 0;
+        this.nodes[child].output.push(...this.nodes[this.nodes[child].fail].output);
+        queue.push(child);
+      }
+    }
+  }
+
+  /**
+   * Find every occurrence of every term, including overlapping ones
+   */
+  public search(text: string): TermMatch[] {
+    const haystack = this.caseSensitive ? text : foldCase(text);
+    const matches: TermMatch[] = [];
+    let state = 0;
+
+    for (let i = 0; i < haystack.length; i++) {
+      const char = haystack[i];
+      while (state !== 0 && !this.nodes[state].next.has(char)) {
+        state = this.nodes[state].fail;
+      }
+      state = this.nodes[state].next.get(char) ?? 0;
+
+      for (const length of this.nodes[state].output) {
+        matches.push({ start: i + 1 - length, end: i + 1 });
+      }
+    }
+
+    return matches;
+  }
+}
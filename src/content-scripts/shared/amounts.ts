@@ -0,0 +1,67 @@
+/**
+ * Currency amounts written with a symbol or an ISO code, in English number format
+ * - $1,234.56 · €12.50 · USD 1200
+ * - 1,234.56 EUR
+ */
+
+const CODES = 'USD|EUR|GBP|JPY|CHF|CAD|AUD|NZD|CNY|INR|SEK|NOK|DKK';
+const NUMBER = '(?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d+)?';
+
+const PREFIXED = new RegExp(`^([$€£¥₹]|(?:${CODES})\\s?)(${NUMBER})$`);
+const SUFFIXED = new RegExp(`^(${NUMBER})(\\s?(?:${CODES}))$`);
+
+// Candidate amounts in running text, confirmed with parseAmount
+export const AMOUNT_PATTERN = new RegExp(
+  `(?:[$€£¥₹]|\\b(?:${CODES})\\s?)${NUMBER}(?![\\d,.]\\d)|\\b${NUMBER}\\s?(?:${CODES})\\b`,
+  'g'
+);
+
+export interface ParsedAmount {
+  amount: number;
+  format: (amount: number) => string;        // Writes another amount with the same currency and precision
+}
+
+/**
+ * Write a number with a fixed number of decimals, optionally with thousands separators
+ */
+function formatNumber(amount: number, decimals: number, grouped: boolean): string {
+  const [whole, fraction] = amount.toFixed(decimals).split('.');
+  const wholeText = grouped ? whole.replace(/\B(?=(\d{3})+$)/g, ',') : whole;
+  return fraction === undefined ? wholeText : `${wholeText}.${fraction}`;
+}
+
+function parseNumber(text: string, wrap: (number: string) => string): ParsedAmount {
+  const decimals = text.split('.')[1]?.length ?? 0;
+  const grouped = text.includes(',');
+  return {
+    amount: Number(text.replace(/,/g, '')),
+    format: (amount) => wrap(formatNumber(amount, decimals, grouped)),
+  };
+}
+
+/**
+ * Parse a currency amount in one of the supported formats
+ */
+export function parseAmount(value: string): ParsedAmount | null {
+  let match = value.match(PREFIXED);
+  if (match) {
+    const [, currency, number] = match;
+    return parseNumber(number, (text) => `${currency}${text}`);
+  }
+
+  match = value.match(SUFFIXED);
+  if (match) {
+    const [, number, currency] = match;
+    return parseNumber(number, (text) => `${text}${currency}`);
+  }
+
+  return null;
+}
+
+/**
+ * Multiply a written amount, keeping its currency, separators and decimals
+ */
+export function scaleAmount(value: string, factor: number): string | null {
+  const parsed = parseAmount(value);
+  return parsed ? parsed.format(parsed.amount * factor) : null;
+}
@@ -0,0 +1,72 @@
+import type { Rule } from '../../types';
+
+// Letters, combining marks, digits and underscore in any script
+const WORD_CHAR = /^[\p{L}\p{M}\p{N}_]$/u;
+
+// Scripts written without spaces between words, where any character can start a word
+const CONTINUOUS_SCRIPT =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]$/u;
+
+/**
+ * Get the full character (code point) ending right before an offset
+ */
+function charBefore(text: string, index: number): string | undefined {
+  if (index <= 0) {
+    return undefined;
+  }
+  const low = text.charCodeAt(index - 1);
+  if (low >= 0xdc00 && low <= 0xdfff && index >= 2) {
+    return text.slice(index - 2, index);
+  }
+  return text[index - 1];
+}
+
+/**
+ * Get the full character (code point) starting at an offset
+ */
+function charAt(text: string, index: number): string | undefined {
+  const codePoint = text.codePointAt(index);
+  return codePoint === undefined ? undefined : String.fromCodePoint(codePoint);
+}
+
+/**
+ * Check that two adjacent characters do not belong to the same word
+ * Scripts like Chinese and Japanese have no spaces, so a Han or kana neighbour never
+ * glues two words together
+ */
+function isWordBreak(left: string | undefined, right: string | undefined): boolean {
+  if (left === undefined || right === undefined) {
+    return true;
+  }
+  if (!WORD_CHAR.test(left) || !WORD_CHAR.test(right)) {
+    return true;
+  }
+  return CONTINUOUS_SCRIPT.test(left) || CONTINUOUS_SCRIPT.test(right);
+}
+
+function isDelimiter(char: string | undefined, delimiters: string): boolean {
+  return char === undefined || /^\s$/u.test(char) || delimiters.includes(char);
+}
+
+/**
+ * Check whether a span of text respects the rule's boundary mode
+ * - `none`: matches anywhere, including inside longer words
+ * - `word`: the span must not continue a word on either side
+ * - `custom`: the span must be surrounded by whitespace, the text edges or one of `boundaryChars`
+ */
+export function isAtBoundary(text: string, start: number, end: number, rule: Pick<Rule, 'boundary' | 'boundaryChars'>): boolean {
+  switch (rule.boundary) {
+    case 'word': {
+      const lastChar = charBefore(text, end);
+      return isWordBreak(charBefore(text, start), charAt(text, start)) && isWordBreak(lastChar, charAt(text, end));
+    }
+
+    case 'custom': {
+      const delimiters = rule.boundaryChars ?? '';
+      return isDelimiter(charBefore(text, start), delimiters) && isDelimiter(charAt(text, end), delimiters);
+    }
+
+    default:
+      return true;
+  }
+}
@@ -1,15 +1,15 @@
-import type { Rule } from '../../types';
-import { unredact } from './redactor';
+import { unredact, CompiledRuleSet } from './redactor';
+import { sessionVault } from './redaction-vault';
 
 // Store listener reference and current rules for dynamic updates
-let currentRules: Rule[] = [];
+let currentRules = new CompiledRuleSet([]);
 let currentContainerSelector: string | undefined;
 let clipboardListener: ((e: ClipboardEvent) => void) | null = null;
 
 /**
  * Create the clipboard event listener
  */
-function createClipboardListener(rules: Rule[], containerSelector?: string): (e: ClipboardEvent) => void {
+function createClipboardListener(rules: CompiledRuleSet, containerSelector?: string): (e: ClipboardEvent) => void {
   return (e: ClipboardEvent) => {
     // If containerSelector is provided, only handle copy events within that container
     if (containerSelector) {
@@ -31,7 +31,7 @@ function createClipboardListener(rules: Rule[], containerSelector?: string): (e:
     }
 
     // Un-redact the selected text
-    const unredactedText = unredact(selectedText, rules);
+    const unredactedText = unredact(selectedText, rules, sessionVault);
 
     // Only intercept if text was actually un-redacted
     if (unredactedText !== selectedText && e.clipboardData) {
@@ -59,10 +59,10 @@ function createClipboardListener(rules: Rule[], containerSelector?: string): (e:
 
 /**
  * Set up clipboard interception for un-redaction
- * @param rules - Array of redaction rules
+ * @param rules - Compiled redaction rules
  * @param containerSelector - Optional selector to limit clipboard interception to specific container
  */
-export function setupClipboard(rules: Rule[], containerSelector?: string): void {
+export function setupClipboard(rules: CompiledRuleSet, containerSelector?: string): void {
   currentRules = rules;
   currentContainerSelector = containerSelector;
   clipboardListener = createClipboardListener(rules, containerSelector);
@@ -72,10 +72,10 @@ export function setupClipboard(rules: Rule[], containerSelector?: string): void
 /**
  * Un-redact HTML content while preserving structure
  * @param html - HTML content with placeholders
- * @param rules - Array of redaction rules
+ * @param rules - Compiled redaction rules
  * @returns Un-redacted HTML
  */
-function unredactHTML(html: string, rules: Rule[]): string {
+function unredactHTML(html: string, rules: CompiledRuleSet): string {
   // Create a temporary element to parse HTML
   const temp = document.createElement('div');
   temp.innerHTML = html;
@@ -85,7 +85,7 @@ function unredactHTML(html: string, rules: Rule[]): string {
     if (node.nodeType === Node.TEXT_NODE) {
       // Un-redact text content
       if (node.textContent) {
-        node.textContent = unredact(node.textContent, rules);
+        node.textContent = unredact(node.textContent, rules, sessionVault);
       }
     } else if (node.nodeType === Node.ELEMENT_NODE) {
       // Recursively process child nodes
@@ -99,9 +99,9 @@ function unredactHTML(html: string, rules: Rule[]): string {
 
 /**
  * Update clipboard rules (call this when rules change)
- * @param newRules - Updated array of rules
+ * @param newRules - Updated compiled rules
  */
-export function updateClipboardRules(newRules: Rule[]): void {
+export function updateClipboardRules(newRules: CompiledRuleSet): void {
   // Remove old listener if it exists
   if (clipboardListener) {
     document.removeEventListener('copy', clipboardListener);
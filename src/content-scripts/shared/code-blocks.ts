@@ -0,0 +1,104 @@
+import type { CodeMode } from '../../types';
+
+export interface CodeSpan {
+  start: number;                 // Start offset of the code (inclusive)
+  end: number;                   // End offset of the code (exclusive)
+}
+
+export interface CodeModeInfo {
+  mode: CodeMode;
+  label: string;                 // Human readable name shown in the options page
+  description: string;           // What happens to matches inside code
+}
+
+export const CODE_MODES: CodeModeInfo[] = [
+  {
+    mode: 'identifier',
+    label: 'Code-safe placeholder',
+    description: 'Inside code, matches become identifiers like CLIENT_1, so identifiers and string literals stay valid.',
+  },
+  {
+    mode: 'placeholder',
+    label: 'Same placeholder as text',
+    description: 'Matches inside code get the same placeholder as everywhere else.',
+  },
+  {
+    mode: 'skip',
+    label: 'Skip in code',
+    description: 'Matches inside code are left alone, for names that only matter in prose.',
+  },
+];
+
+// Fenced block with its opening line; an unclosed fence runs to the end of the text
+const FENCED_BLOCK = /^[ \t]*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm;
+const INLINE_CODE = /`[^`\n]+`/g;
+
+// Lines that are typical of source code and rare in prose
+const CODE_LINE = [
+  /[;{}]\s*$/,
+  /^\s*(?:import|from|export|def|class|function|const|let|var|return|if|elif|else|for|while|package|public|private|protected|using|fn|func|impl|struct|#include|@\w+)\b/,
+  /=>|->|::|\)\s*\{|\w\(.*\)\s*[:;]?\s*$/,
+  /^\s*(?:\/\/|\/\*|\*\/?|#(?!\s*#))/,
+];
+
+// Share of non-blank lines that must look like code for unfenced text to count as code
+const MIN_CODE_LINE_SHARE = 0.5;
+
+/**
+ * Whether a whole unfenced text, such as a paste, is source code
+ */
+export function looksLikeCode(text: string): boolean {
+  const lines = text.split('\n').filter((line) => line.trim());
+  if (lines.length < 2) {
+    return false;
+  }
+  const codeLines = lines.filter((line) => CODE_LINE.some((pattern) => pattern.test(line))).length;
+  return codeLines / lines.length >= MIN_CODE_LINE_SHARE;
+}
+
+/**
+ * Find the parts of a text that are code: fenced blocks, inline code spans, or the whole text when it reads as code
+ * Fence lines and backticks are left out, so only the code itself is in a span.
+ */
+export function findCodeSpans(text: string): CodeSpan[] {
+  const spans: CodeSpan[] = [];
+  let prose = '';
+  let cursor = 0;
+
+  for (const match of text.matchAll(FENCED_BLOCK)) {
+    // The code starts right after the line break ending the opening fence
+    const start = match.index + match[0].indexOf('\n') + 1;
+    spans.push({ start, end: start + match[2].length });
+    prose += text.slice(cursor, match.index) + ' '.repeat(match[0].length);
+    cursor = match.index + match[0].length;
+  }
+  prose += text.slice(cursor);
+
+  if (spans.length === 0 && looksLikeCode(text)) {
+    return [{ start: 0, end: text.length }];
+  }
+
+  // Inline code is looked for outside the fenced blocks, which were blanked out above
+  for (const match of prose.matchAll(INLINE_CODE)) {
+    spans.push({ start: match.index + 1, end: match.index + match[0].length - 1 });
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether an offset falls inside one of the code spans
+ */
+export function isInCode(spans: CodeSpan[], offset: number): boolean {
+  return spans.some((span) => offset >= span.start && offset < span.end);
+}
+
+/**
+ * Turn a placeholder or token into an identifier: `[CLIENT_1]` → `CLIENT_1`, `<<EMAIL 2>>` → `EMAIL_2`
+ */
+export function toIdentifier(token: string): string {
+  const identifier = token.replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/g, '');
+  if (!identifier) {
+    return 'REDACTED';
+  }
+  return /^\p{N}/u.test(identifier) ? `_${identifier}` : identifier;
+}
@@ -0,0 +1,177 @@
+import type { ContextOptions, ValueShape } from '../../types';
+import { analyzeRegex } from './regex-safety';
+
+export const DEFAULT_CONTEXT_WINDOW = 20;
+export const MAX_CONTEXT_WINDOW = 100;
+
+export interface ValueShapeInfo {
+  shape: ValueShape;
+  label: string;                 // Human readable name shown in the options page
+  source: string;                // Pattern of the value, checked to start where a new token can start
+}
+
+// Separators between a keyword and its value that never start the value
+const SEPARATORS = String.raw`\s:="'(\[`;
+
+// Words between a keyword and its value, as in "my api key is xyz" or "password was set to hunter2"
+const FILLER_WORDS = ['is', 'was', 'are', 'were', 'be', 'been', 'equals', 'set', 'to', 'now', 'as', 'of', 'for', 'the'];
+
+// Filler words, in any capitalization so case-sensitive rules still skip "Is", and separators
+const FILLER = String.raw`(?:${FILLER_WORDS.map(anyCase).join('|')})(?![\p{L}\p{N}_-])|[:=>]`;
+
+// Words that follow a keyword in a sentence about it rather than before its value, as in "password is required"
+const PROSE_WORDS = new Set([
+  'required', 'needed', 'optional', 'incorrect', 'invalid', 'wrong', 'correct', 'missing', 'empty', 'expired',
+  'changed', 'reset', 'updated', 'stored', 'saved', 'sent', 'shared', 'hidden', 'encrypted', 'hashed', 'not',
+  'never', 'always', 'still', 'also', 'too', 'very', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'with',
+  'must', 'should', 'will', 'can', 'cannot', 'could', 'would', 'may', 'might', 'has', 'have', 'had', 'does',
+  'did', 'do', 'that', 'this', 'it', 'which',
+]);
+
+// Shapes whose values can be ordinary words, where a sentence about the keyword has to be told apart
+const PROSE_SHAPES: ValueShape[] = ['any', 'word'];
+
+export const VALUE_SHAPES: ValueShapeInfo[] = [
+  {
+    shape: 'any',
+    label: 'Any text up to a space or quote',
+    // Trailing sentence punctuation is left out of the value
+    source: String.raw`(?<![^${SEPARATORS}])[^\s"',;:=()\[\]](?:[^\s"',;]*[^\s"',;.:)\]])?`,
+  },
+  {
+    shape: 'word',
+    label: 'Letters, digits, _ and -',
+    source: String.raw`(?<![\p{L}\p{N}_-])[\p{L}\p{N}_](?:[\p{L}\p{N}_-]*[\p{L}\p{N}_])?`,
+  },
+  {
+    shape: 'digits',
+    label: 'Digits only',
+    source: String.raw`(?<!\d)\d+(?!\d)`,
+  },
+  {
+    shape: 'custom',
+    label: 'Custom pattern',
+    source: '',
+  },
+];
+
+/**
+ * Split a comma or newline separated keyword list, dropping blanks and duplicates
+ */
+export function parseKeywords(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword && !seen.has(keyword.toLowerCase()) && seen.add(keyword.toLowerCase()));
+}
+
+function anyCase(word: string): string {
+  return word.replace(/\p{L}/gu, (char) => `[${char}${char.toUpperCase()}]`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Keyword pattern that also accepts other spellings of multi-word keywords
+ * e.g. `api key` matches "api key", "api_key", "api-key" and "apikey"
+ */
+function keywordSource(keyword: string): string {
+  return keyword.split(/[\s_-]+/).map(escapeRegExp).join('[\\s_-]?');
+}
+
+function valueSource(options: ContextOptions): string | undefined {
+  return options.shape === 'custom'
+    ? options.pattern
+    : VALUE_SHAPES.find((info) => info.shape === options.shape)?.source;
+}
+
+/**
+ * Build the pattern of a context rule: a keyword, at most `window` characters on the same line, then the value
+ * The value never starts with a filler word or separator, so "password is hunter2" redacts "hunter2".
+ * The value is the last named group, so its span is the end of the match.
+ * @returns The pattern, or null when there are no keywords or the custom value pattern is invalid
+ */
+export function buildContextRegex(options: ContextOptions, caseSensitive: boolean): RegExp | null {
+  const keywords = options.keywords.filter((keyword) => keyword.trim());
+  const value = valueSource(options);
+  if (keywords.length === 0 || !value) {
+    return null;
+  }
+
+  const window = Math.min(Math.max(Math.round(options.window), 0), MAX_CONTEXT_WINDOW);
+  const source = String.raw`(?<![\p{L}\p{N}])(?:${keywords.map(keywordSource).join('|')})(?![\p{L}\p{N}])`
+    + `(?<gap>[^\\n]{0,${window}}?)(?!${FILLER})(?<value>${value})`;
+  try {
+    return new RegExp(source, caseSensitive ? 'gu' : 'giu');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the pattern of a context rule's value alone, matching at the start of the text
+ * Used to tell how far a value goes on when more of it is typed right after its placeholder.
+ * @returns The pattern, or null when the custom value pattern is invalid
+ */
+export function buildValueRegex(options: ContextOptions, caseSensitive: boolean): RegExp | null {
+  const value = valueSource(options);
+  if (!value) {
+    return null;
+  }
+  try {
+    return new RegExp(`^(?:${value})`, caseSensitive ? 'u' : 'iu');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a custom value pattern
+ * @returns Why the pattern can't be used, or undefined when it is fine
+ */
+export function validateValuePattern(pattern: string, caseSensitive: boolean): string | undefined {
+  if (!pattern.trim()) {
+    return 'Value pattern is required';
+  }
+  if (!buildContextRegex({ keywords: ['x'], shape: 'custom', pattern, window: 0 }, caseSensitive)) {
+    return 'Invalid regular expression';
+  }
+  return analyzeRegex(pattern, caseSensitive).errors[0];
+}
+
+/**
+ * Whether a keyword is followed by a sentence about it rather than by its value
+ * "password field is required" and "password is required" say nothing secret: a plain word right after the
+ * keyword, or a common word like "required" after a filler word, ends the search for that keyword.
+ */
+function isProse(gap: string, value: string): boolean {
+  const word = value.toLowerCase();
+  return PROSE_WORDS.has(word) || (!gap.trim() && /^\p{L}\p{Ll}*$/u.test(value));
+}
+
+/**
+ * Find the value spans of a context rule, leaving the keywords in place
+ * @param shape - The rule's value shape; words of a sentence about the keyword are skipped for `any` and `word`
+ */
+export function findContextValues(text: string, regex: RegExp, shape: ValueShape = 'any'): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const skipProse = PROSE_SHAPES.includes(shape);
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const value = match.groups?.value ?? '';
+    const end = match.index + match[0].length;
+    if (value.length > 0 && !(skipProse && isProse(match.groups?.gap ?? '', value))) {
+      spans.push({ start: end - value.length, end });
+    }
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+    }
+  }
+
+  return spans;
+}
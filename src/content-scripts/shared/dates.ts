@@ -0,0 +1,157 @@
+/**
+ * Dates in common written formats, parsed so they can be shifted and written back in the same format
+ * - ISO: 2024-03-15, 2024/03/15
+ * - Numeric: 03/15/2024 (month first unless the first number can't be a month), 15.03.2024 (day first)
+ * - Month names: March 15, 2024 · Mar. 15th 2024 · 15 March 2024
+ */
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const ORDINAL = 'st|nd|rd|th';
+
+const ISO_DATE = /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})$/;
+const NUMERIC_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4})$/;
+const MONTH_FIRST = new RegExp(`^(${MONTH})(\\.?\\s+)(\\d{1,2})(${ORDINAL})?(,?\\s+)(\\d{4})$`, 'i');
+const DAY_FIRST = new RegExp(`^(\\d{1,2})(${ORDINAL})?(\\s+)(${MONTH})(\\.?,?\\s+)(\\d{4})$`, 'i');
+
+// Candidate dates in running text, confirmed with parseDate
+export const DATE_PATTERN = new RegExp(
+  [
+    '(?<![\\w/.-])\\d{4}([-/])\\d{1,2}\\1\\d{1,2}(?![\\w/-]|\\.\\d)',
+    '(?<![\\w/.-])\\d{1,2}([-/.])\\d{1,2}\\2\\d{4}(?![\\w/-]|\\.\\d)',
+    `\\b(?:${MONTH})\\.?\\s+\\d{1,2}(?:${ORDINAL})?,?\\s+\\d{4}\\b`,
+    `\\b\\d{1,2}(?:${ORDINAL})?\\s+(?:${MONTH})\\.?,?\\s+\\d{4}\\b`,
+  ].join('|'),
+  'gi'
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedDate {
+  time: number;                              // UTC midnight of the date
+  format: (time: number) => string;          // Writes another date in the same format
+}
+
+/**
+ * UTC time of a calendar date, or null when the date does not exist
+ */
+function toTime(year: number, month: number, day: number): number | null {
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return time;
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) {
+    return 'th';
+  }
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+}
+
+function monthIndex(name: string): number {
+  const lower = name.toLowerCase();
+  return MONTHS.findIndex((month) => month.startsWith(lower.slice(0, 3)));
+}
+
+/**
+ * Write a month name in the style of the original: full or abbreviated, and the same letter case
+ */
+function monthName(index: number, original: string): string {
+  const full = original.toLowerCase() === MONTHS[monthIndex(original)];
+  const name = full ? MONTHS[index] : MONTHS[index].slice(0, 3);
+  if (original === original.toUpperCase()) {
+    return name.toUpperCase();
+  }
+  if (original === original.toLowerCase()) {
+    return name;
+  }
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+function parts(time: number): { year: number; month: number; day: number } {
+  const date = new Date(time);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Parse a date in one of the supported formats
+ */
+export function parseDate(value: string): ParsedDate | null {
+  let match = value.match(ISO_DATE);
+  if (match) {
+    const [, year, sep, month, day] = match;
+    const time = toTime(Number(year), Number(month), Number(day));
+    return time === null ? null : {
+      time,
+      format: (t) => {
+        const d = parts(t);
+        return `${d.year}${sep}${pad(d.month, month.length)}${sep}${pad(d.day, day.length)}`;
+      },
+    };
+  }
+
+  match = value.match(NUMERIC_DATE);
+  if (match) {
+    const [, first, sep, second, year] = match;
+    // Dotted dates and dates whose first number can't be a month are written day first
+    const dayFirst = sep === '.' || Number(first) > 12;
+    const [day, month] = dayFirst ? [first, second] : [second, first];
+    const time = toTime(Number(year), Number(month), Number(day));
+    return time === null ? null : {
+      time,
+      format: (t) => {
+        const d = parts(t);
+        const dayText = pad(d.day, day.length);
+        const monthText = pad(d.month, month.length);
+        return dayFirst ? `${dayText}${sep}${monthText}${sep}${d.year}` : `${monthText}${sep}${dayText}${sep}${d.year}`;
+      },
+    };
+  }
+
+  match = value.match(MONTH_FIRST);
+  if (match) {
+    const [, month, sep1, day, suffix, sep2, year] = match;
+    const time = toTime(Number(year), monthIndex(month) + 1, Number(day));
+    return time === null ? null : {
+      time,
+      format: (t) => {
+        const d = parts(t);
+        return `${monthName(d.month - 1, month)}${sep1}${d.day}${suffix ? ordinal(d.day) : ''}${sep2}${d.year}`;
+      },
+    };
+  }
+
+  match = value.match(DAY_FIRST);
+  if (match) {
+    const [, day, suffix, sep1, month, sep2, year] = match;
+    const time = toTime(Number(year), monthIndex(month) + 1, Number(day));
+    return time === null ? null : {
+      time,
+      format: (t) => {
+        const d = parts(t);
+        return `${d.day}${suffix ? ordinal(d.day) : ''}${sep1}${monthName(d.month - 1, month)}${sep2}${d.year}`;
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Move a written date by a number of days, keeping its format
+ */
+export function shiftDate(value: string, days: number): string | null {
+  const parsed = parseDate(value);
+  return parsed ? parsed.format(parsed.time + days * DAY_MS) : null;
+}
@@ -0,0 +1,73 @@
+import type { Detection } from '../../types';
+
+const HIDE_AFTER_MS = 6000;
+
+let root: ShadowRoot | null = null;
+let host: HTMLElement | null = null;
+let hideTimer: ReturnType<typeof setTimeout> | null = null;
+let lastShown = '';
+
+/**
+ * Create the notice container on first use
+ * It lives in a closed shadow root so the site's styles neither reach nor read it.
+ */
+function getRoot(): ShadowRoot {
+  if (root && host?.isConnected) {
+    return root;
+  }
+
+  host = document.createElement('div');
+  host.style.cssText = 'position:fixed;right:16px;bottom:16px;z-index:2147483647;';
+  root = host.attachShadow({ mode: 'closed' });
+  const style = document.createElement('style');
+  style.textContent = `
+    .notice { max-width: 320px; padding: 10px 12px; border-radius: 8px; background: #111827; color: #f9fafb;
+      font: 12px/1.4 system-ui, sans-serif; box-shadow: 0 4px 12px rgba(0, 0, 0, 0.25); }
+    .title { font-weight: 600; margin-bottom: 4px; }
+    .muted { color: #9ca3af; }
+  `;
+  root.appendChild(style);
+  document.body.appendChild(host);
+  return root;
+}
+
+/**
+ * Show the person names found in the composer in a small notice that hides itself
+ * Composer text is redacted on every edit, so the same findings are only shown once.
+ */
+export function showDetectionNotice(detections: Detection[]): void {
+  const key = detections.map((detection) => `${detection.text}\u0000${detection.redacted}`).join('\u0001');
+  if (key === lastShown) {
+    return;
+  }
+  lastShown = key;
+
+  const shadow = getRoot();
+  shadow.querySelector('.notice')?.remove();
+
+  const notice = document.createElement('div');
+  notice.className = 'notice';
+  const title = document.createElement('div');
+  title.className = 'title';
+  title.textContent = `Possible name${detections.length !== 1 ? 's' : ''} detected`;
+  notice.appendChild(title);
+
+  for (const detection of detections) {
+    const line = document.createElement('div');
+    line.textContent = `${detection.text} `;
+    const status = document.createElement('span');
+    status.className = 'muted';
+    status.textContent = `${Math.round(detection.confidence * 100)}% · ${detection.redacted ? 'redacted' : 'not redacted'}`;
+    line.appendChild(status);
+    notice.appendChild(line);
+  }
+  shadow.appendChild(notice);
+
+  if (hideTimer) {
+    clearTimeout(hideTimer);
+  }
+  hideTimer = setTimeout(() => {
+    notice.remove();
+    lastShown = '';
+  }, HIDE_AFTER_MS);
+}
@@ -0,0 +1,383 @@
+import type { DetectorOptions } from '../../types';
+import { findHighEntropyStrings } from './entropy';
+import { DATE_PATTERN, parseDate } from './dates';
+import { AMOUNT_PATTERN, parseAmount } from './amounts';
+import { findPersonNames } from './person-names';
+import { findStructuredSecrets } from './structured-data';
+import { findUrlParts } from './urls';
+import { findPathUsernames } from './paths';
+
+export type DetectorId =
+  | 'credit-card'
+  | 'iban'
+  | 'us-ssn'
+  | 'ipv4'
+  | 'ipv6'
+  | 'mac-address'
+  | 'jwt'
+  | 'pem-private-key'
+  | 'aws-access-key'
+  | 'gcp-api-key'
+  | 'github-token'
+  | 'slack-token'
+  | 'date'
+  | 'amount'
+  | 'person-name'
+  | 'config-secrets'
+  | 'url'
+  | 'file-path'
+  | 'high-entropy';
+
+export interface DetectorMatch {
+  start: number;                 // Start offset in the scanned text (inclusive)
+  end: number;                   // End offset in the scanned text (exclusive)
+  confidence?: number;           // Score from 0 to 1, for heuristic detectors
+  wrap?: string;                 // Put around the replacement to keep the value's syntax, e.g. quotes in YAML
+  remove?: boolean;              // Delete the match instead of replacing it, e.g. a stripped query parameter
+}
+
+export interface Detector {
+  id: DetectorId;
+  label: string;                 // Human readable name shown in the options page
+  description: string;           // What the detector recognizes and how it validates
+  placeholder: string;           // Suggested placeholder for new rules
+  configurable?: 'entropy' | 'names' | 'structured' | 'url'; // Which DetectorOptions the detector reads, if any
+  find: (text: string, options?: DetectorOptions) => DetectorMatch[];
+}
+
+/**
+ * Collect matches of a candidate pattern that pass validation
+ */
+function findValidated(
+  text: string,
+  pattern: RegExp,
+  validate: (value: string) => boolean = () => true
+): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  const scanner = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+
+  while ((match = scanner.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      scanner.lastIndex++;
+      continue;
+    }
+    if (validate(match[0])) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Check that a number starts with a known card issuer prefix and has a length that issuer uses
+ * Keeps Luhn-valid order and invoice numbers from being flagged as cards
+ */
+function hasCardIssuerPrefix(digits: string): boolean {
+  const length = digits.length;
+  const prefix2 = Number(digits.slice(0, 2));
+  const prefix3 = Number(digits.slice(0, 3));
+  const prefix4 = Number(digits.slice(0, 4));
+
+  if (digits[0] === '4') return length === 13 || length === 16 || length === 19; // Visa
+  if ((prefix2 >= 51 && prefix2 <= 55) || (prefix4 >= 2221 && prefix4 <= 2720)) return length === 16; // Mastercard
+  if (prefix2 === 34 || prefix2 === 37) return length === 15; // American Express
+  if (prefix4 === 6011 || prefix2 === 65 || (prefix3 >= 644 && prefix3 <= 649)) return length >= 16; // Discover
+  if (prefix4 >= 3528 && prefix4 <= 3589) return length >= 16; // JCB
+  if (prefix2 === 36 || prefix2 === 38 || (prefix3 >= 300 && prefix3 <= 305)) return length === 14; // Diners Club
+  return false;
+}
+
+function isCreditCard(value: string): boolean {
+  const digits = value.replace(/[ -]/g, '');
+  return digits.length >= 13 && digits.length <= 19 && hasCardIssuerPrefix(digits) && isLuhnValid(digits);
+}
+
+/**
+ * ISO 13616 mod-97 check for IBANs
+ */
+export function isIbanValid(value: string): boolean {
+  const iban = value.replace(/ /g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const numeric = code >= 65 ? String(code - 55) : char;
+    for (const digit of numeric) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * Reject SSNs the SSA never issues: area 000, 666 or 900-999, group 00, serial 0000
+ */
+/**
+ * Find IBANs, retrying a candidate without its last space-separated group when it fails the check
+ * A word written right after the number, like `USD` in `DE89 3704 0044 0532 0130 00 USD`, is read as more
+ * of it at first.
+ */
+function findIbans(text: string): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  for (const match of text.matchAll(/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g)) {
+    let candidate = match[0];
+    while (candidate && !isIbanValid(candidate)) {
+      const space = candidate.lastIndexOf(' ');
+      candidate = space > 4 ? candidate.slice(0, space) : '';
+    }
+    if (candidate) {
+      matches.push({ start: match.index, end: match.index + candidate.length });
+    }
+  }
+  return matches;
+}
+
+function isSsnValid(value: string): boolean {
+  const [area, group, serial] = value.split(/[- ]/);
+  const areaNumber = Number(area);
+
+  return (
+    areaNumber !== 0 &&
+    areaNumber !== 666 &&
+    areaNumber < 900 &&
+    group !== '00' &&
+    serial !== '0000'
+  );
+}
+
+function isIpv4Valid(value: string): boolean {
+  return value.split('.').every((octet) => Number(octet) <= 255 && (octet === '0' || !octet.startsWith('0')));
+}
+
+function isIpv6Valid(value: string): boolean {
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap((half) => (half ? half.split(':') : []));
+  // A bare `::` is Haskell's `foo :: Int` or C++'s `std::` far more often than the unspecified address
+  if (groups.length === 0 || !groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return false;
+  }
+
+  if (halves.length === 1) {
+    // Without `::` all eight groups must be written out
+    return groups.length === 8;
+  }
+
+  // `dead::beef` and `a::b` read as words or names; an address has more groups, a leading or trailing `::`
+  // as in `::1`, or a digit as in `fe80::1`
+  const plausible = groups.length >= 3 || !halves[0] || !halves[1] || groups.some((group) => /\d/.test(group));
+  return plausible && groups.length < 8;
+}
+
+function decodeBase64Url(segment: string): string | null {
+  try {
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+    return atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    return null;
+  }
+}
+
+function isJwtValid(value: string): boolean {
+  const header = decodeBase64Url(value.split('.')[0]);
+  if (!header) {
+    return false;
+  }
+  try {
+    const parsed = JSON.parse(header);
+    return typeof parsed === 'object' && parsed !== null && 'alg' in parsed;
+  } catch {
+    return false;
+  }
+}
+
+export const DETECTORS: Detector[] = [
+  {
+    id: 'credit-card',
+    label: 'Credit card number',
+    description: 'Card numbers with a known issuer prefix that pass the Luhn check',
+    placeholder: '[CARD]',
+    find: (text) => findValidated(text, /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g, isCreditCard),
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    description: 'International bank account numbers that pass the mod-97 check',
+    placeholder: '[IBAN]',
+    find: findIbans,
+  },
+  {
+    id: 'us-ssn',
+    label: 'US Social Security number',
+    description: 'Dash or space separated SSNs, excluding ranges that are never issued',
+    placeholder: '[SSN]',
+    find: (text) => findValidated(text, /(?<![\d-])\d{3}([- ])\d{2}\1\d{4}(?![\d-])/g, isSsnValid),
+  },
+  {
+    id: 'ipv4',
+    label: 'IPv4 address',
+    description: 'Dotted quad addresses with every octet in 0-255',
+    placeholder: '[IP]',
+    find: (text) => findValidated(text, /(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?![\d.])/g, isIpv4Valid),
+  },
+  {
+    id: 'ipv6',
+    label: 'IPv6 address',
+    description: 'Full and `::` compressed IPv6 addresses',
+    placeholder: '[IP]',
+    find: (text) =>
+      findValidated(text, /(?<![\w:])(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?![\w:])/gi, isIpv6Valid),
+  },
+  {
+    id: 'mac-address',
+    label: 'MAC address',
+    description: 'Colon, dash or dot separated hardware addresses',
+    placeholder: '[MAC]',
+    find: (text) =>
+      findValidated(
+        text,
+        /\b(?:[0-9a-f]{2}([:-])(?:[0-9a-f]{2}\1){4}[0-9a-f]{2}|[0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4})\b/gi
+      ),
+  },
+  {
+    id: 'jwt',
+    label: 'JSON Web Token',
+    description: 'Three-part tokens whose header decodes to JSON with an "alg" field',
+    placeholder: '[JWT]',
+    find: (text) => findValidated(text, /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g, isJwtValid),
+  },
+  {
+    id: 'pem-private-key',
+    label: 'PEM private key',
+    description: 'Complete BEGIN/END PRIVATE KEY blocks, including RSA, EC and OpenSSH keys',
+    placeholder: '[PRIVATE_KEY]',
+    find: (text) =>
+      findValidated(
+        text,
+        /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g
+      ),
+  },
+  {
+    id: 'aws-access-key',
+    label: 'AWS access key ID',
+    description: 'Long-term (AKIA) and temporary (ASIA) access key IDs',
+    placeholder: '[AWS_KEY]',
+    find: (text) => findValidated(text, /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g),
+  },
+  {
+    id: 'gcp-api-key',
+    label: 'Google Cloud API key',
+    description: 'API keys starting with AIza',
+    placeholder: '[GCP_KEY]',
+    find: (text) => findValidated(text, /\bAIza[\w-]{35}(?![\w-])/g),
+  },
+  {
+    id: 'github-token',
+    label: 'GitHub token',
+    description: 'Personal access, OAuth, app and refresh tokens (ghp_, gho_, ghu_, ghs_, ghr_, github_pat_)',
+    placeholder: '[GITHUB_TOKEN]',
+    find: (text) => findValidated(text, /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/g),
+  },
+  {
+    id: 'slack-token',
+    label: 'Slack token',
+    description: 'Bot, user and app tokens (xoxb-, xoxp-, ...) and incoming webhook URLs',
+    placeholder: '[SLACK_TOKEN]',
+    find: (text) =>
+      findValidated(
+        text,
+        /\bxox[abposr]-[A-Za-z0-9-]{10,}|https:\/\/hooks\.slack\.com\/services\/T\w+\/B\w+\/\w+/g
+      ),
+  },
+  {
+    id: 'date',
+    label: 'Date',
+    description: 'Calendar dates like 2024-03-15, 03/15/2024, 15.03.2024 or March 15, 2024; pair with date shifting to keep intervals',
+    placeholder: '[DATE]',
+    find: (text) => findValidated(text, DATE_PATTERN, (value) => parseDate(value) !== null),
+  },
+  {
+    id: 'amount',
+    label: 'Currency amount',
+    description: 'Amounts with a currency symbol or code, like $1,234.56 or 1200 EUR; pair with amount scaling to keep ratios',
+    placeholder: '[AMOUNT]',
+    find: (text) => findValidated(text, AMOUNT_PATTERN, (value) => parseAmount(value) !== null),
+  },
+  {
+    id: 'person-name',
+    label: 'Person name',
+    description: 'Names scored offline from bundled first and last name lists, capitalization and titles like Mr. or Dr.',
+    placeholder: '[NAME]',
+    configurable: 'names',
+    find: findPersonNames,
+  },
+  {
+    id: 'config-secrets',
+    label: 'Secrets in config and data',
+    description: 'Values under keys like password, token or dsn in pasted JSON, YAML, .env, INI and CSV, and chosen CSV columns; keys and structure stay intact',
+    placeholder: '[SECRET]',
+    configurable: 'structured',
+    find: findStructuredSecrets,
+  },
+  {
+    id: 'url',
+    label: 'URL parts',
+    description: 'Credentials in URLs, hosts under your internal domains and signed or secret query parameters; the URL stays valid',
+    placeholder: '[URL_PART]',
+    configurable: 'url',
+    find: findUrlParts,
+  },
+  {
+    id: 'file-path',
+    label: 'Usernames in file paths',
+    description: 'The user folder in paths like /home/jdoe, /Users/jdoe or C:\\Users\\jdoe, and that username elsewhere, e.g. in a shell prompt; paths keep their shape',
+    placeholder: '[USER]',
+    find: findPathUsernames,
+  },
+  {
+    id: 'high-entropy',
+    label: 'High-entropy secret',
+    description: 'Random-looking base64 or hex tokens without a known prefix, scored by Shannon entropy',
+    placeholder: '[SECRET]',
+    configurable: 'entropy',
+    find: findHighEntropyStrings,
+  },
+];
+
+/**
+ * Look up a detector by ID
+ */
+export function getDetector(id: string): Detector | undefined {
+  return DETECTORS.find((detector) => detector.id === id);
+}
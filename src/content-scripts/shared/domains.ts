@@ -0,0 +1,69 @@
+/**
+ * Domain rules: emails, hostnames and URLs under one or more domains, subdomains included
+ */
+
+// One hostname label, such as `mail` in `mail.acme.com`
+const LABEL = '[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?';
+
+// Characters that end a URL: whitespace, quotes and angle brackets
+const URL_BODY = '[^\\s<>"\'`]';
+
+/**
+ * Split the domain list of a rule, accepting `@acme.com`, `*.corp.acme.com` and full URLs
+ * @returns Lowercase domains without duplicates
+ */
+export function parseDomains(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\s,]+/)
+    .map((domain) => domain
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+      .replace(/^[^@]*@/, '')
+      .replace(/^\*?\./, '')
+      .replace(/[/:].*$/, '')
+      .replace(/\.$/, ''))
+    .filter((domain) => domain && !seen.has(domain) && seen.add(domain));
+}
+
+/**
+ * Check a domain from the rule form
+ * @returns Why the domain can't be used, or undefined when it is fine
+ */
+export function validateDomain(domain: string): string | undefined {
+  if (!new RegExp(`^(?:${LABEL}\\.)*${LABEL}$`).test(domain)) {
+    return `"${domain}" is not a domain name`;
+  }
+  return domain.includes('.') ? undefined : `"${domain}" needs a dot, e.g. ${domain}.com`;
+}
+
+/**
+ * Check the domain list typed for a rule
+ * @returns The first problem found, or undefined when every domain is fine
+ */
+export function validateDomainList(text: string): string | undefined {
+  const domains = parseDomains(text);
+  if (domains.length === 0) {
+    return 'Add at least one domain';
+  }
+  return domains.map(validateDomain).find(Boolean);
+}
+
+/**
+ * Build the regex matching URLs, emails and hostnames under the domains, longest form first
+ * A URL runs until whitespace, without the punctuation that ends a sentence after it. Domains are
+ * case-insensitive, so the rule's case setting does not apply.
+ */
+export function buildDomainRegex(domains: string[]): RegExp | null {
+  const valid = domains.filter((domain) => !validateDomain(domain));
+  if (valid.length === 0) {
+    return null;
+  }
+
+  const names = valid.map((domain) => domain.replace(/\./g, '\\.')).join('|');
+  const host = `(?:${LABEL}\\.)*(?:${names})(?![a-z0-9-]|\\.${LABEL})`;
+  const url = `\\b[a-z][a-z0-9+.-]*:\\/\\/(?:[^\\s/@]+@)?${host}(?::\\d+)?(?:[/?#]${URL_BODY}*?)?(?=[.,;:!?)\\]}'"]*(?:\\s|$))`;
+  const email = `[a-z0-9._%+-]+@${host}`;
+  return new RegExp(`${url}|(?<![a-z0-9._%+@-])(?:${email}|${host})`, 'gi');
+}
@@ -1,4 +1,4 @@
-import type { Rule } from '../../types';
+import type { CompiledRuleSet } from './redactor';
 import { EditableFieldHandler } from './editable-field-handler';
 import { log } from './utils';
 
@@ -13,10 +13,10 @@ export class EditModeMonitor {
   private observer!: MutationObserver;
   private activeHandlers: Map<HTMLElement, EditableFieldHandler> = new Map();
   private config: EditModeConfig;
-  private rules: Rule[];
+  private rules: CompiledRuleSet;
   private isEnabled: boolean;
 
-  constructor(config: EditModeConfig, rules: Rule[], isEnabled: boolean) {
+  constructor(config: EditModeConfig, rules: CompiledRuleSet, isEnabled: boolean) {
     this.config = config;
     this.rules = rules;
     this.isEnabled = isEnabled;
@@ -129,6 +129,11 @@ export class EditModeMonitor {
         this.config.saveButtonSelector
       );
       if (saveButton) {
+        // Capture runs before the page's own click handler reads the field
+        saveButton.addEventListener('click', () => this.activeHandlers.get(editField)?.redactForSend(), {
+          capture: true,
+          once: true,
+        });
         saveButton.addEventListener('click', cleanup, { once: true });
       }
     }
@@ -169,7 +174,7 @@ export class EditModeMonitor {
     }
   }
 
-  public updateRules(newRules: Rule[]): void {
+  public updateRules(newRules: CompiledRuleSet): void {
     this.rules = newRules;
     this.activeHandlers.forEach((handler) => handler.updateRules(newRules));
   }
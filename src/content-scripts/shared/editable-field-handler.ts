@@ -1,5 +1,7 @@
-import type { Rule } from '../../types';
-import { redact } from './redactor';
+import type { RedactionResult } from '../../types';
+import { mapOffset, redact, type CompiledRuleSet } from './redactor';
+import { sessionVault } from './redaction-vault';
+import { isSendKey } from './send-guard';
 import { log } from './utils';
 
 interface EditFieldHandlerConfig {
@@ -9,12 +11,12 @@ interface EditFieldHandlerConfig {
 
 export class EditableFieldHandler {
   private element: HTMLElement;
-  private rules: Rule[];
+  private rules: CompiledRuleSet;
   private isEnabled: boolean;
   private skipNextInput: boolean = false;
   private skipNextRedaction: boolean = false;
 
-  constructor(config: EditFieldHandlerConfig, rules: Rule[], isEnabled: boolean) {
+  constructor(config: EditFieldHandlerConfig, rules: CompiledRuleSet, isEnabled: boolean) {
     this.element = config.element;
     this.rules = rules;
     this.isEnabled = isEnabled;
@@ -24,6 +26,7 @@ export class EditableFieldHandler {
   private setupListeners(): void {
     this.element.addEventListener('input', this.handleInput, true);
     this.element.addEventListener('paste', this.handlePaste, true);
+    this.element.addEventListener('keydown', this.handleKeyDown, true);
   }
 
   private handleInput = (): void => {
@@ -39,27 +42,33 @@ export class EditableFieldHandler {
 
     const currentText = this.getEditorText();
 
-    if (!this.isEnabled || this.rules.length === 0) {
+    if (!this.isEnabled || this.rules.isEmpty) {
       return;
     }
 
-    const result = redact(currentText, this.rules);
+    const result = redact(currentText, this.rules, sessionVault, { caret: this.getCaretOffset() });
 
     if (result.appliedRules.length > 0) {
       log(`Edit field redaction: "${currentText}" → "${result.text}"`);
-      this.updateContent(result.text);
+      this.updateContent(result);
+    }
+  };
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (isSendKey(e)) {
+      this.redactForSend();
     }
   };
 
   private handlePaste = (e: ClipboardEvent): void => {
-    if (!this.isEnabled || this.rules.length === 0) {
+    if (!this.isEnabled || this.rules.isEmpty) {
       return;
     }
 
     const pastedText = e.clipboardData?.getData('text/plain') || '';
     if (!pastedText) return;
 
-    const result = redact(pastedText, this.rules);
+    const result = redact(pastedText, this.rules, sessionVault);
 
     if (result.appliedRules.length > 0) {
       log(`Edit field paste redaction: "${pastedText}" → "${result.text}"`);
@@ -126,18 +135,37 @@ export class EditableFieldHandler {
     return (this.element.textContent || '').trim();
   }
 
-  private updateContent(text: string): void {
+  /**
+   * Offset of the caret in the field's text
+   */
+  private getCaretOffset(): number {
+    if (this.element.tagName === 'TEXTAREA') {
+      return (this.element as HTMLTextAreaElement).selectionStart;
+    }
+
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) {
+      return 0;
+    }
+    const range = selection.getRangeAt(0);
+    const preCaretRange = range.cloneRange();
+    preCaretRange.selectNodeContents(this.element);
+    preCaretRange.setEnd(range.endContainer, range.endOffset);
+    return preCaretRange.toString().length;
+  }
+
+  private updateContent(result: RedactionResult): void {
+    const { text } = result;
+
     // Handle textarea elements
     if (this.element.tagName === 'TEXTAREA') {
       const textarea = this.element as HTMLTextAreaElement;
       const cursorPosition = textarea.selectionStart;
-      const currentText = textarea.value;
-      const lengthDiff = text.length - currentText.length;
-      
+
       textarea.value = text;
-      
-      // Restore cursor position
-      const newPosition = Math.max(0, Math.min(cursorPosition + lengthDiff, text.length));
+
+      // Restore cursor position at the same place in the redacted text
+      const newPosition = Math.max(0, Math.min(mapOffset(result.matches, cursorPosition), text.length));
       textarea.setSelectionRange(newPosition, newPosition);
       
       textarea.dispatchEvent(new Event('input', { bubbles: true }));
@@ -145,19 +173,7 @@ export class EditableFieldHandler {
     }
 
     // Handle contenteditable divs
-    const selection = window.getSelection();
-    let cursorOffset = 0;
-
-    if (selection && selection.rangeCount > 0) {
-      const range = selection.getRangeAt(0);
-      const preCaretRange = range.cloneRange();
-      preCaretRange.selectNodeContents(this.element);
-      preCaretRange.setEnd(range.endContainer, range.endOffset);
-      cursorOffset = preCaretRange.toString().length;
-    }
-
-    const currentText = this.getEditorText();
-    const lengthDiff = text.length - currentText.length;
+    const cursorOffset = this.getCaretOffset();
 
     // Update content
     this.element.innerHTML = '<p></p>';
@@ -173,7 +189,7 @@ export class EditableFieldHandler {
       const textNode = paragraph.firstChild;
 
       if (textNode) {
-        let newOffset = cursorOffset + lengthDiff;
+        let newOffset = mapOffset(result.matches, cursorOffset);
         const maxOffset = textNode.textContent?.length || 0;
         newOffset = Math.max(0, Math.min(newOffset, maxOffset));
 
@@ -187,12 +203,31 @@ export class EditableFieldHandler {
     this.element.dispatchEvent(new Event('input', { bubbles: true }));
   }
 
-  public updateRules(newRules: Rule[]): void {
+  /**
+   * Redact the whole field in place before it is saved, including a value or name held at the caret
+   * The text is replaced before the page's own Enter or save handler reads it.
+   */
+  public redactForSend(): void {
+    if (!this.isEnabled || this.rules.isEmpty) {
+      return;
+    }
+
+    const currentText = this.getEditorText();
+    const result = redact(currentText, this.rules, sessionVault);
+
+    if (result.appliedRules.length > 0) {
+      log(`Edit field save redaction: "${currentText}" → "${result.text}"`);
+      this.updateContent(result);
+    }
+  }
+
+  public updateRules(newRules: CompiledRuleSet): void {
     this.rules = newRules;
   }
 
   public destroy(): void {
     this.element.removeEventListener('input', this.handleInput, true);
     this.element.removeEventListener('paste', this.handlePaste, true);
+    this.element.removeEventListener('keydown', this.handleKeyDown, true);
   }
 }
\ No newline at end of file
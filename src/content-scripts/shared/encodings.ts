@@ -0,0 +1,78 @@
+import type { Encoding } from '../../types';
+
+export interface EncodedRun {
+  start: number;                 // Start offset of the encoded text (inclusive)
+  end: number;                   // End offset of the encoded text (exclusive)
+  encoding: Encoding;
+  decoded: string;               // The run decoded as UTF-8
+}
+
+export const ENCODING_LABELS: Record<Encoding, string> = {
+  base64: 'base64',
+  percent: 'URL-encoded',
+  hex: 'hex',
+};
+
+// Standard and URL-safe alphabets; shorter runs can't hold a useful secret
+const BASE64_RUN = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{8,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+const PERCENT_RUN = /(?<![\w.~%+-])[\w.~+-]*%[0-9A-Fa-f]{2}[\w.~%+-]*/g;
+// Plain, spaced or colon-separated bytes like a hex dump, or `\x41` escapes
+const HEX_RUN = /(?<![0-9A-Za-z])[0-9A-Fa-f]{2}(?:[ :]?[0-9A-Fa-f]{2}){3,}(?![0-9A-Za-z])|(?:\\x[0-9A-Fa-f]{2}){4,}/g;
+
+const utf8 = new TextDecoder();
+
+function decodeBytes(bytes: number[]): string {
+  return utf8.decode(new Uint8Array(bytes));
+}
+
+function decodeBase64(run: string): string | null {
+  const standard = run.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (standard.length % 4 === 1) {
+    return null;
+  }
+  try {
+    const binary = atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, '='));
+    return decodeBytes(Array.from(binary, (char) => char.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+function decodePercent(run: string): string | null {
+  try {
+    return decodeURIComponent(run.replace(/\+/g, ' '));
+  } catch {
+    return null;
+  }
+}
+
+function decodeHex(run: string): string {
+  const digits = run.replace(/\\x|[ :]/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i + 1 < digits.length; i += 2) {
+    bytes.push(parseInt(digits.slice(i, i + 2), 16));
+  }
+  return decodeBytes(bytes);
+}
+
+/**
+ * Find base64, percent-encoded and hex runs in a text and decode them
+ * Runs that don't decode are skipped; a run can appear under more than one encoding, such as hex
+ * digits that are also valid base64.
+ */
+export function findEncodedRuns(text: string): EncodedRun[] {
+  const runs: EncodedRun[] = [];
+  const scan = (pattern: RegExp, encoding: Encoding, decode: (run: string) => string | null) => {
+    for (const match of text.matchAll(pattern)) {
+      const decoded = decode(match[0]);
+      if (decoded) {
+        runs.push({ start: match.index, end: match.index + match[0].length, encoding, decoded });
+      }
+    }
+  };
+
+  scan(HEX_RUN, 'hex', decodeHex);
+  scan(PERCENT_RUN, 'percent', decodePercent);
+  scan(BASE64_RUN, 'base64', decodeBase64);
+  return runs;
+}
@@ -0,0 +1,113 @@
+import type { DetectorOptions } from '../../types';
+import type { DetectorMatch } from './detectors';
+
+export const DEFAULT_ENTROPY_MIN_LENGTH = 20;
+export const DEFAULT_ENTROPY_THRESHOLD = 4.5;
+
+// Bits per character of the base64 and hex alphabets
+const BASE64_BITS = 6;
+const HEX_BITS = 4;
+
+// Runs that read as words, and the share of a token they may cover before it counts as an identifier;
+// capitals only count between separators, as in `AWS_REGION`, since keys like `AKIA…` are all capitals
+const WORD_PATTERN = /[A-Z]?[a-z]{3,}|(?<![A-Za-z0-9])[A-Z]{2,}(?![A-Za-z0-9])/g;
+const MAX_WORD_SHARE = 0.5;
+
+// Candidate tokens are runs of base64, base64url and hex characters
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_-]+/g;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{40}$/i;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Entropy a token must reach, as the threshold's share of the most its length and alphabet allow
+ * A string of n characters can't exceed log2(n) bits per character, so shorter tokens need less:
+ * the default 4.5 bits is 3.2 bits for 20 base64 characters, and 3.0 bits for hex of 16 or more.
+ */
+function requiredEntropy(token: string, threshold: number, alphabetBits: number): number {
+  const maxBits = Math.log2(Math.min(token.length, 2 ** alphabetBits));
+  return (threshold / BASE64_BITS) * maxBits;
+}
+
+/**
+ * Share of a token made of runs that read as words, like `Account` in `getAccount2024`
+ */
+function wordShare(token: string): number {
+  let length = 0;
+  for (const match of token.matchAll(WORD_PATTERN)) {
+    length += match[0].length;
+  }
+  return length / token.length;
+}
+
+/**
+ * Decide whether a token looks like a random secret
+ *
+ * The threshold is in bits per character for long base64 tokens and is scaled down for shorter and hex
+ * tokens (see `requiredEntropy`). At 20 characters nearly every character of a camelCase identifier is
+ * distinct as well, so base64-like tokens must also mix letters and digits and be mostly not words.
+ */
+function isHighEntropyToken(token: string, options: DetectorOptions): boolean {
+  const threshold = options.threshold ?? DEFAULT_ENTROPY_THRESHOLD;
+
+  if (options.allowUuids !== false && UUID_PATTERN.test(token)) {
+    return false;
+  }
+  if (options.allowCommitHashes !== false && COMMIT_HASH_PATTERN.test(token)) {
+    return false;
+  }
+
+  if (HEX_PATTERN.test(token)) {
+    return /\d/.test(token) && shannonEntropy(token) >= requiredEntropy(token, threshold, HEX_BITS);
+  }
+
+  return /\d/.test(token)
+    && /[A-Za-z]/.test(token)
+    && wordShare(token) < MAX_WORD_SHARE
+    && shannonEntropy(token) >= requiredEntropy(token, threshold, BASE64_BITS);
+}
+
+/**
+ * Find high-entropy tokens such as API keys, random passwords and base64 blobs
+ */
+export function findHighEntropyStrings(text: string, options: DetectorOptions = {}): DetectorMatch[] {
+  const minLength = options.minLength ?? DEFAULT_ENTROPY_MIN_LENGTH;
+  const matches: DetectorMatch[] = [];
+  const scanner = new RegExp(TOKEN_PATTERN.source, TOKEN_PATTERN.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = scanner.exec(text)) !== null) {
+    // Padding and separators at the edges are not part of the secret
+    const token = match[0].replace(/^[-_/+=]+/, '').replace(/[-_/+]+$/, '');
+    if (token.length < minLength) {
+      continue;
+    }
+    if (isHighEntropyToken(token, options)) {
+      const start = match.index + match[0].indexOf(token);
+      matches.push({ start, end: start + token.length });
+    }
+  }
+
+  return matches;
+}
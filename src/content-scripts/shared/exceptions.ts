@@ -0,0 +1,125 @@
+import type { ExceptionKind, RuleException } from '../../types';
+import { analyzeRegex } from './regex-safety';
+
+export interface ExceptionKindInfo {
+  kind: ExceptionKind;
+  label: string;                 // Human readable name shown in the options page
+  placeholder: string;           // Example value for the input
+}
+
+export const EXCEPTION_KINDS: ExceptionKindInfo[] = [
+  { kind: 'value', label: 'Match is', placeholder: 'e.g., support@acme.com' },
+  { kind: 'pattern', label: 'Match fits pattern', placeholder: 'e.g., 192\\.0\\.2\\.\\d+' },
+  { kind: 'precededBy', label: 'Unless preceded by', placeholder: 'e.g., example:' },
+  { kind: 'followedBy', label: 'Unless followed by', placeholder: 'e.g., (public)' },
+];
+
+export interface CompiledException {
+  exception: RuleException;
+  test: (text: string, start: number, end: number) => boolean;
+}
+
+/**
+ * Check an exception before it is saved
+ * @returns Why the exception can't be used, or undefined when it is fine
+ */
+export function validateException(exception: Pick<RuleException, 'kind' | 'value' | 'caseSensitive'>): string | undefined {
+  if (!exception.value.trim()) {
+    return 'Exception text is required';
+  }
+  if (exception.kind !== 'pattern') {
+    return undefined;
+  }
+  try {
+    new RegExp(exception.value);
+  } catch {
+    return 'Invalid regular expression';
+  }
+  return analyzeRegex(exception.value, !!exception.caseSensitive).errors[0];
+}
+
+/**
+ * Keep only exceptions with text, for saving
+ */
+export function withoutBlankExceptions(exceptions: RuleException[]): RuleException[] {
+  return exceptions.filter((exception) => exception.value.trim());
+}
+
+/**
+ * Whether every exception with text can be used
+ */
+export function areExceptionsValid(exceptions: RuleException[]): boolean {
+  return withoutBlankExceptions(exceptions).every((exception) => !validateException(exception));
+}
+
+/**
+ * Describe an exception for rule badges and the tester, e.g. `unless preceded by "example:"`
+ */
+export function describeException(exception: RuleException): string {
+  const label = EXCEPTION_KINDS.find((info) => info.kind === exception.kind)?.label ?? exception.kind;
+  return `${label.toLowerCase()} "${exception.value}"`;
+}
+
+/**
+ * Compile an exception into a check on match spans
+ * @returns The check, or null when a pattern is invalid or unsafe
+ */
+function compileException(exception: RuleException): CompiledException | null {
+  const fold = (value: string) => (exception.caseSensitive ? value : value.toLowerCase());
+  const value = fold(exception.value.trim());
+
+  switch (exception.kind) {
+    case 'value':
+      return { exception, test: (text, start, end) => fold(text.slice(start, end)) === value };
+
+    case 'pattern': {
+      if (validateException(exception)) {
+        return null;
+      }
+      const regex = new RegExp(`^(?:${exception.value})$`, exception.caseSensitive ? '' : 'i');
+      return { exception, test: (text, start, end) => regex.test(text.slice(start, end)) };
+    }
+
+    case 'precededBy':
+      // Spaces and tabs between the context and the match are ignored
+      return {
+        exception,
+        test: (text, start) =>
+          fold(text.slice(Math.max(0, start - value.length - 16), start).replace(/[ \t]+$/, '')).endsWith(value),
+      };
+
+    case 'followedBy':
+      return {
+        exception,
+        test: (text, _start, end) =>
+          fold(text.slice(end, end + value.length + 16).replace(/^[ \t]+/, '')).startsWith(value),
+      };
+  }
+}
+
+/**
+ * Compile a list of exceptions, skipping blank, invalid and unsafe ones
+ */
+export function compileExceptions(exceptions: RuleException[] = []): CompiledException[] {
+  return withoutBlankExceptions(exceptions)
+    .map((exception) => {
+      const compiled = compileException(exception);
+      if (!compiled) {
+        console.error(`Invalid or unsafe exception pattern "${exception.value}"`);
+      }
+      return compiled;
+    })
+    .filter((compiled): compiled is CompiledException => compiled !== null);
+}
+
+/**
+ * Find the first exception that keeps a match from being redacted
+ */
+export function findException(
+  exceptions: CompiledException[],
+  text: string,
+  start: number,
+  end: number
+): RuleException | undefined {
+  return exceptions.find((compiled) => compiled.test(text, start, end))?.exception;
+}
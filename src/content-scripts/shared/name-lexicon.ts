@@ -0,0 +1,68 @@
+/**
+ * Lexicons for the person-name detector, bundled so detection works offline
+ *
+ * Common given names and surnames across English, Spanish, Portuguese, French, German, Italian, Dutch,
+ * Nordic, Slavic, Indian, Chinese, Japanese, Korean, Vietnamese and Arabic naming traditions, lowercased.
+ */
+
+function words(list: string): Set<string> {
+  return new Set(list.trim().split(/\s+/));
+}
+
+export const FIRST_NAMES = words(`
+  aaron abdul abigail adam adrian ahmed aisha akira alan albert alejandro alex alexander alexandra alexis ali alice
+  alicia alison amanda amber amelia amir amit amy ana andrea andreas andrew andy angela anil anita ann anna anne
+  annie anthony antonio anya arjun arthur ashley astrid aurora ava barbara ben benjamin beth betty bianca bob bogdan
+  brandon brenda brian bruno caitlin camila carl carla carlos carmen carol caroline catherine charles charlie
+  charlotte chen chloe chris christian christina christine christopher claire claudia connor craig cynthia daniel
+  daniela david deborah deepak denise dennis diana diego dmitri dominic donald donna dorothy dylan edward elena
+  elias elif elizabeth ella emily emma eric erik ethan eva evelyn fatima felix fernando fiona francesca francesco
+  francisco frank gabriel gabriela gary george georgia gerald giulia giuseppe grace greg gregory hana hannah
+  harold harry heather helen henry hiroshi hugo ian ines ingrid irene isaac isabel isabella ivan jack jacob james
+  jan jane janet jason javier jean jennifer jeremy jessica jiho jin joan joanna joe john jonathan jordan jorge jose
+  joseph joshua juan judith julia julian julie justin karen karl kate katherine kathleen katie kavya keith kenji
+  kevin kim kyle lars laura lauren lea lena leo leon li liam lily linda lisa lucas lucia luis luke madison magnus
+  manuel marco margaret maria marie marina mario mark marta martin mary matteo matthew maya megan mei melissa
+  michael michelle miguel mikhail mila min minh mohammed monica nadia nancy natalia natasha nathan neha nicholas
+  nicole nikhil nina noah nora olga olivia omar oscar pablo pamela patricia patrick paul paula pedro peter philip
+  pierre pooja priya rachel rahul raj rajesh ravi rebecca richard rita robert roberto ryan sakura samantha samuel
+  sandra sanjay sara sarah scott sean sebastian sergei sharon shirley simon sofia sophie stephanie stephen steven
+  susan svetlana takeshi tanya teresa thomas tiffany timothy tom tyler valentina vanessa victor victoria vikram
+  vincent virginia walter wei william xavier yan yasmin yuki yusuf zara zoe
+`);
+
+export const LAST_NAMES = words(`
+  adams ahmed alexander ali allen alvarez anderson andersson bailey baker banerjee barnes bauer becker bell bennett
+  bernard bianchi brooks brown bruno butler campbell carter castillo chan chang chen clark collins colombo cook cooper
+  costa cox cruz das davies davis diaz dubois dumont edwards evans ferrari fernandes fernandez fischer fisher flores
+  foster garcia gomez gonzalez gray green gupta gutierrez hall hansen harris hernandez hill hoffmann howard huang
+  hughes hussain ivanov jackson james jansen jensen johansson johnson jones kaur khan kim king klein koch kowalski
+  kumar laurent lee lewis li lin liu lopez lund martin martinez meyer miller mitchell moore morales moreau morgan
+  morris muller murphy murray nakamura nelson nguyen nielsen novak olsen ortiz parker patel perez perry peterson
+  petrov phillips pham price ramirez ramos reddy reed reyes richardson rivera roberts robinson rodriguez rogers romano
+  ross rossi russell sanchez sanders santos sato schmidt schneider schulz scott shah sharma silva singh smith
+  sorensen stewart sullivan suzuki takahashi tanaka taylor thomas thompson torres tran turner van walker wang ward
+  watanabe watson weber white williams wilson wood wright wu yamamoto yang young zhang zhao zhou
+`);
+
+// Capitalized words that are also names but more often something else
+export const AMBIGUOUS_NAMES = words(`
+  april august autumn bill chase christian dawn faith grace hope hunter iris ivy joy june justice lily mark max may
+  miles pat rose ruby sky summer violet will
+`);
+
+// Courtesy titles and greetings before a name; the cue itself is never redacted
+export const TITLES = words(`
+  mr mrs ms miss mx dr prof sir dame rev capt herr frau mme mlle sr sra
+`);
+
+export const GREETINGS = words(`
+  dear hi hello hey thanks cc
+`);
+
+// Capitalized words that start a sentence or a heading rather than a name
+export const STOPWORDS = words(`
+  a an and as at but by for from i if in is it my no not of on or our so the their then there these this those to
+  we what when where which who why with yes you your monday tuesday wednesday thursday friday saturday sunday
+  january february march october november december
+`);
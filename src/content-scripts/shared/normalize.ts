@@ -0,0 +1,87 @@
+/**
+ * Normalized view of a text used to catch obfuscated variants of rule originals
+ * Each normalized character remembers the span of the original text it came from,
+ * so matches found in the view can be mapped back to exact original offsets.
+ */
+export interface NormalizedText {
+  text: string;                  // NFKC-normalized, confusable-folded, zero-width-stripped text
+  starts: number[];              // Original start offset of each normalized character
+  ends: number[];                // Original end offset of each normalized character
+}
+
+// Invisible characters used to split words without changing how they look:
+// soft hyphen, zero-width spaces and joiners, direction marks and Hangul fillers
+const ZERO_WIDTH = /[\u00AD\u061C\u115F\u1160\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u3164\uFEFF]/g;
+
+// Invisible combining marks: grapheme joiner and variation selectors
+const INVISIBLE_MARKS = /\u034F|\p{Variation_Selector}/gu;
+
+// A base character followed by its combining marks
+const CLUSTER = /\P{M}\p{M}*|\p{M}+/gu;
+
+// Cyrillic, Greek and Latin letters that render like basic Latin letters
+// NFKC already folds full-width, mathematical and ligature forms
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic lowercase
+  '\u0430': 'a', '\u0435': 'e', '\u0451': '\u00EB', '\u0456': 'i', '\u0457': '\u00EF', '\u0458': 'j',
+  '\u043E': 'o', '\u0440': 'p', '\u0441': 'c', '\u0443': 'y', '\u0445': 'x', '\u0455': 's',
+  '\u0501': 'd', '\u051B': 'q', '\u051D': 'w', '\u04BB': 'h', '\u04CF': 'l',
+  // Cyrillic uppercase
+  '\u0410': 'A', '\u0412': 'B', '\u0415': 'E', '\u0401': '\u00CB', '\u0406': 'I', '\u0407': '\u00CF',
+  '\u0408': 'J', '\u041A': 'K', '\u041C': 'M', '\u041D': 'H', '\u041E': 'O', '\u0420': 'P',
+  '\u0421': 'C', '\u0422': 'T', '\u0423': 'Y', '\u0425': 'X', '\u0405': 'S', '\u0500': 'D',
+  '\u051A': 'Q', '\u051C': 'W', '\u04BA': 'H', '\u04C0': 'I',
+  // Greek
+  '\u0391': 'A', '\u0392': 'B', '\u0395': 'E', '\u0396': 'Z', '\u0397': 'H', '\u0399': 'I',
+  '\u039A': 'K', '\u039C': 'M', '\u039D': 'N', '\u039F': 'O', '\u03A1': 'P', '\u03A4': 'T',
+  '\u03A5': 'Y', '\u03A7': 'X', '\u03BF': 'o', '\u03BD': 'v', '\u03F2': 'c', '\u03F3': 'j',
+  // Latin letter variants
+  '\u0131': 'i', '\u0237': 'j', '\u0251': 'a', '\u0261': 'g', '\u0269': 'i', '\u028F': 'y',
+};
+
+/**
+ * Fold a normalized character to the Latin letter it imitates
+ */
+function foldConfusable(char: string): string {
+  return CONFUSABLES[char] ?? char;
+}
+
+/**
+ * Build the normalized view of a text together with its offset map
+ */
+export function normalizeForMatching(text: string): NormalizedText {
+  const result: NormalizedText = { text: '', starts: [], ends: [] };
+  const scanner = new RegExp(CLUSTER.source, CLUSTER.flags);
+  let cluster: RegExpExecArray | null;
+
+  while ((cluster = scanner.exec(text)) !== null) {
+    const start = cluster.index;
+    const end = start + cluster[0].length;
+    const normalized = cluster[0].replace(ZERO_WIDTH, '').replace(INVISIBLE_MARKS, '').normalize('NFKC');
+
+    for (const char of normalized) {
+      const folded = foldConfusable(char);
+      result.text += folded;
+      for (let i = 0; i < folded.length; i++) {
+        result.starts.push(start);
+        result.ends.push(end);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Normalize a rule original the same way as the text it is matched against
+ */
+export function normalizeValue(value: string): string {
+  return normalizeForMatching(value).text;
+}
+
+/**
+ * Map a span of the normalized view back to the original text
+ */
+export function toOriginalSpan(view: NormalizedText, start: number, end: number): { start: number; end: number } {
+  return { start: view.starts[start], end: view.ends[end - 1] };
+}
@@ -0,0 +1,78 @@
+import type { DetectorMatch } from './detectors';
+
+export interface PathSpan {
+  start: number;                 // Start offset of the path (inclusive)
+  end: number;                   // End offset of the path (exclusive)
+}
+
+// POSIX paths with at least two segments, or starting at the home directory; never part of a URL or fraction,
+// though a shell prompt like `jdoe@laptop:~/src` is followed
+const POSIX_PATH = /(?:(?<![\w.~:/\\-])|(?<=:)(?=~))(?:~|\.\.?)?(?:\/[\w.@%+~-]+)+\/?/g;
+
+// Drive letter and UNC paths, with either slash; folders like `John Doe` may hold spaces, the last segment may not
+const WINDOWS_PATH = /(?<![\w\\/])(?:[A-Za-z]:|\\\\[\w.-]+)(?:[\\/][^\\/\n:*?"<>|]*[^\\/\s:*?"<>|](?=[\\/]))*(?:[\\/][^\\/\s:*?"<>|]+)?[\\/]?/g;
+
+// Home directories at the root of a path, WSL mounts like /mnt/c/Users/jdoe included; `/api/users/12345` is not one
+const HOME_DIR = /^(?:\/home|\/Users|\/mnt\/[a-z]\/Users|[A-Za-z]:[\\/](?:Users|Documents and Settings))[\\/]([^\\/]+)/;
+
+// Accounts shared by everyone on a system, which reveal nothing about the user
+const GENERIC_USERS = new Set([
+  'root', 'admin', 'administrator', 'user', 'ubuntu', 'ec2-user', 'runner', 'vagrant', 'node', 'www-data',
+  'shared', 'public', 'default', 'default user', 'all users', 'guest',
+]);
+
+function trimPath(path: string): string {
+  return path.replace(/[.,;:!?)\]'"]+$/, '');
+}
+
+/**
+ * Find POSIX and Windows file paths in a text
+ */
+export function findPaths(text: string): PathSpan[] {
+  const spans: PathSpan[] = [];
+  for (const pattern of [POSIX_PATH, WINDOWS_PATH]) {
+    for (const match of text.matchAll(pattern)) {
+      const path = trimPath(match[0]);
+      const segments = path.split(/[\\/]/).filter(Boolean).length;
+      if (segments >= 2 || path.startsWith('~/')) {
+        spans.push({ start: match.index, end: match.index + path.length });
+      }
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find OS usernames: the home directory segment of paths, and every other occurrence of those names,
+ * such as a shell prompt like `jdoe@laptop:~$`
+ */
+export function findPathUsernames(text: string): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  const usernames = new Set<string>();
+
+  for (const path of findPaths(text)) {
+    const home = HOME_DIR.exec(text.slice(path.start, path.end));
+    const username = home?.[1];
+    if (!home || !username || GENERIC_USERS.has(username.toLowerCase())) {
+      continue;
+    }
+    const start = path.start + home[0].length - username.length;
+    matches.push({ start, end: start + username.length });
+    usernames.add(username);
+  }
+
+  if (usernames.size > 0) {
+    const names = [...usernames].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    for (const match of text.matchAll(new RegExp(`(?<![\\w.-])(?:${names})(?![\\w-])`, 'g'))) {
+      if (!matches.some((existing) => existing.start === match.index)) {
+        matches.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,167 @@
+import type { DetectorOptions } from '../../types';
+import type { DetectorMatch } from './detectors';
+import { AMBIGUOUS_NAMES, FIRST_NAMES, GREETINGS, LAST_NAMES, STOPWORDS, TITLES } from './name-lexicon';
+
+export const DEFAULT_NAME_CONFIDENCE = 0.6;
+
+// Longest run of capitalized words read as one name, e.g. "Maria del Carmen Ortiz"
+const MAX_NAME_WORDS = 4;
+
+// Lowercase surname particles kept inside a name when a capitalized word follows
+const PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'bin', 'al', 'el']);
+
+const WORD = /\p{L}[\p{L}'’-]*/gu;
+
+// Score added or taken away by each cue
+const SCORE = {
+  title: 0.6,                    // Mr., Dr., Prof. ... right before
+  greeting: 0.3,                 // Dear, Hi, Hello ... right before
+  firstName: 0.45,               // First word is a known given name
+  lastName: 0.35,                // Last word of a multi-word name is a known surname
+  unknownLastName: 0.15,         // Capitalized word after a known given name
+  initial: 0.25,                 // First word is an initial, as in "J. Smith"
+  lone: 0.25,                    // Single word that is a known surname
+  sentenceStart: -0.15,          // Single word at the start of a sentence, where everything is capitalized
+  ambiguous: -0.3,               // Single word that is more often not a name, like "Will" or "June"
+};
+
+interface Word {
+  text: string;
+  key: string;                   // Lowercased, without a possessive 's
+  start: number;
+  end: number;                   // End of the name part, before any possessive 's
+  possessive: boolean;
+}
+
+function toWord(text: string, start: number): Word {
+  const possessive = /['’]s$/.test(text);
+  const name = possessive ? text.slice(0, -2) : text.replace(/['’-]+$/, '');
+  return { text: name, key: name.toLowerCase(), start, end: start + name.length, possessive };
+}
+
+function isCapitalized(word: Word): boolean {
+  // All-caps words of two letters or more are acronyms, not names
+  return /^\p{Lu}/u.test(word.text) && (word.text.length === 1 || /\p{Ll}/u.test(word.text));
+}
+
+function isInitial(word: Word): boolean {
+  return word.text.length === 1;
+}
+
+/**
+ * Whether the gap between two words can sit inside a name: a space, or a dot and a space after an initial
+ */
+function joins(text: string, left: Word, right: Word): boolean {
+  const gap = text.slice(left.end, right.start);
+  return !left.possessive && (gap === ' ' || (isInitial(left) && (gap === '. ' || gap === '.')));
+}
+
+function isKnown(lexicon: Set<string>, key: string): boolean {
+  // Double-barrelled names count when any part is known
+  return lexicon.has(key) || key.split('-').some((part) => lexicon.has(part));
+}
+
+function isSentenceStart(text: string, start: number): boolean {
+  const before = text.slice(Math.max(0, start - 40), start).replace(/[ \t]+$/, '');
+  return (before === '' && start <= 40) || /(?:[.!?:\n]|(?:^|\n)[-*>#]+)$/.test(before);
+}
+
+/**
+ * Score a run of name words from 0 to 1, given the cue word right before it, if any
+ */
+function scoreName(text: string, words: Word[], cue: Word | undefined): number {
+  const first = words[0];
+  const last = words[words.length - 1];
+  let score = 0;
+
+  if (cue && TITLES.has(cue.key)) {
+    score += SCORE.title;
+  } else if (cue && GREETINGS.has(cue.key)) {
+    score += SCORE.greeting;
+  }
+
+  if (words.length === 1) {
+    if (isKnown(FIRST_NAMES, first.key)) {
+      score += SCORE.firstName;
+    } else if (isKnown(LAST_NAMES, first.key)) {
+      score += SCORE.lone;
+    }
+    if (AMBIGUOUS_NAMES.has(first.key)) {
+      score += SCORE.ambiguous;
+    }
+    if (!cue && isSentenceStart(text, first.start)) {
+      score += SCORE.sentenceStart;
+    }
+  } else {
+    const knownFirst = isKnown(FIRST_NAMES, first.key);
+    if (knownFirst) {
+      score += SCORE.firstName;
+    } else if (isInitial(first)) {
+      score += SCORE.initial;
+    }
+    if (isKnown(LAST_NAMES, last.key)) {
+      score += SCORE.lastName;
+    } else if (knownFirst && !isInitial(last)) {
+      score += SCORE.unknownLastName;
+    }
+  }
+
+  return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+}
+
+/**
+ * Find person names using the bundled lexicons and capitalization and title cues
+ * Titles and greetings raise the score but stay outside the match, so "Dr. Smith" becomes "Dr. [NAME_1]".
+ */
+export function findPersonNames(text: string, options: DetectorOptions = {}): DetectorMatch[] {
+  const minConfidence = options.confidence ?? DEFAULT_NAME_CONFIDENCE;
+  const allowlist = new Set((options.allowlist ?? []).map((name) => name.trim().toLowerCase()));
+  const words = Array.from(text.matchAll(WORD), (match) => toWord(match[0], match.index));
+  const matches: DetectorMatch[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    if (!isCapitalized(word) || STOPWORDS.has(word.key) || TITLES.has(word.key) || GREETINGS.has(word.key)) {
+      i++;
+      continue;
+    }
+
+    // Extend the run over capitalized words and particles followed by one
+    const run = [word];
+    let next = i + 1;
+    while (next < words.length && run.length < MAX_NAME_WORDS && joins(text, words[next - 1], words[next])) {
+      const candidate = words[next];
+      if (isCapitalized(candidate) && !STOPWORDS.has(candidate.key)) {
+        run.push(candidate);
+      } else if (PARTICLES.has(candidate.key) && words[next + 1] && isCapitalized(words[next + 1])
+        && joins(text, candidate, words[next + 1])) {
+        run.push(candidate, words[next + 1]);
+        next++;
+      } else {
+        break;
+      }
+      next++;
+    }
+
+    // Capitalized words before a known given name, as in "Ask Maria Garcia", are not part of the name
+    const lead = run.findIndex((candidate) => isKnown(FIRST_NAMES, candidate.key));
+    const name = lead > 0 ? run.slice(lead) : run;
+
+    const previous = words[i - 1];
+    const cue = lead <= 0 && previous && (TITLES.has(previous.key) || GREETINGS.has(previous.key))
+      && /^\.?\s+$/.test(text.slice(previous.end, word.start))
+      ? previous
+      : undefined;
+
+    const start = name[0].start;
+    const end = name[name.length - 1].end;
+    const confidence = scoreName(text, name, cue);
+    if (confidence >= minConfidence && !allowlist.has(text.slice(start, end).toLowerCase())) {
+      matches.push({ start, end, confidence });
+    }
+    i = next;
+  }
+
+  return matches;
+}
@@ -0,0 +1,132 @@
+import type { Rule } from '../../types';
+
+/**
+ * Placeholder templates
+ * - `$1`…`$9`, `$<name>`: capture groups of a regex rule
+ * - `{{ruleName}}`: the rule's name
+ * - `{{n}}`: per-value number, 1 for the first distinct value
+ * - `{{len}}`: length of the matched value
+ * - `{{hash}}`: short hash of the matched value, the same in every session
+ */
+const TEMPLATE_TOKEN = /\$(\d)|\$<(\w+)>|\{\{\s*(ruleName|n|len|hash)\s*\}\}/g;
+
+// Patterns of the rendered fields; capture groups can hold any text on one line
+const FIELD_PATTERNS: Record<string, string> = { n: '\\d+', len: '\\d+', hash: '[0-9A-Z]{6}' };
+const GROUP_PATTERN = '[^\\n]+?';
+
+// Stands for a field while the rest of the template is escaped; letters only, so it survives `toText`
+const FIELD_MARK = 'QqFIELDqQ';
+
+export interface TemplateValues {
+  value: string;                 // Matched text
+  groups?: (string | undefined)[]; // Numbered capture groups, `groups[0]` is `$1`
+  namedGroups?: Record<string, string | undefined>;
+  n: number;                     // Per-value number
+  ruleName: string;
+}
+
+/**
+ * Check whether a placeholder uses template syntax
+ */
+export function isTemplate(placeholder: string): boolean {
+  return new RegExp(TEMPLATE_TOKEN.source).test(placeholder);
+}
+
+/**
+ * Check whether a template varies with the matched value
+ * `{{ruleName}}` is fixed per rule, so a template using only it still needs numbering
+ */
+export function isValueTemplate(placeholder: string): boolean {
+  return Array.from(placeholder.matchAll(TEMPLATE_TOKEN)).some((token) => token[3] !== 'ruleName');
+}
+
+/**
+ * 32-bit FNV-1a hash of a value as six base-36 characters
+ */
+export function shortHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(6, '0').slice(-6).toUpperCase();
+}
+
+/**
+ * Name used for `{{ruleName}}`, never the rule's original text
+ */
+export function templateRuleName(rule: Pick<Rule, 'name' | 'type' | 'original'>): string {
+  if (rule.name?.trim()) {
+    return rule.name.trim();
+  }
+  return rule.type === 'detector' ? rule.original.toUpperCase().replace(/-/g, '_') : 'REDACTED';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a pattern matching every token a template can render, so tokens are recognized without the
+ * vault that issued them
+ * @param toText - Applied to the template with its fields marked, e.g. to match the identifiers made from tokens
+ * @param groupPattern - Pattern of a capture group's text after `toText`
+ * @returns The pattern, or null for a template of fields alone, which would match any text
+ */
+export function templatePattern(
+  template: string,
+  ruleName: string,
+  toText: (text: string) => string = (text) => text,
+  groupPattern: string = GROUP_PATTERN
+): string | null {
+  const fields: string[] = [];
+  const marked = template.replace(TEMPLATE_TOKEN, (_token, group: string, named: string, field: string) => {
+    if (field === 'ruleName') {
+      return ruleName;
+    }
+    fields.push(group !== undefined || named !== undefined ? groupPattern : FIELD_PATTERNS[field]);
+    return `${FIELD_MARK}${fields.length - 1}${FIELD_MARK}`;
+  });
+  const mark = new RegExp(`${FIELD_MARK}(\\d+)${FIELD_MARK}`, 'g');
+  if (!marked.replace(mark, '').trim()) {
+    return null;
+  }
+  return escapeRegExp(toText(marked)).replace(mark, (_mark, index: string) => fields[Number(index)]);
+}
+
+/**
+ * Check a placeholder from the rule form
+ * A template of fields alone, like `$1` or `{{len}}`, renders tokens that can't be told apart from the
+ * response's own text, so they could never be restored safely.
+ * @returns Why the placeholder can't be used, or undefined when it is fine
+ */
+export function validatePlaceholder(placeholder: string): string | undefined {
+  if (isTemplate(placeholder) && templatePattern(placeholder, 'RULE') === null) {
+    return 'Add fixed text around the template fields, e.g. [ACCT_$1], so tokens can be found again in responses';
+  }
+  return undefined;
+}
+
+/**
+ * Fill in a placeholder template for one matched value
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(TEMPLATE_TOKEN, (_token, group: string, named: string, field: string) => {
+    if (group !== undefined) {
+      return values.groups?.[Number(group) - 1] ?? '';
+    }
+    if (named !== undefined) {
+      return values.namedGroups?.[named] ?? '';
+    }
+    switch (field) {
+      case 'ruleName':
+        return values.ruleName;
+      case 'n':
+        return String(values.n);
+      case 'len':
+        return String(values.value.length);
+      default:
+        return shortHash(values.value);
+    }
+  });
+}
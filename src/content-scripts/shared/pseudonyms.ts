@@ -0,0 +1,65 @@
+import type { Rule } from '../../types';
+import { numberedPlaceholder } from './redaction-vault';
+import { normalizeValue } from './normalize';
+import { hmacSha256, toHex } from './sha256';
+
+// Hex characters of the HMAC kept in the token: `[CLIENT]` → `[CLIENT_7f3a9c02d1]`; 40 bits keep an
+// 8,000-term dictionary clear of collisions, where 24 bits gave about two
+export const PSEUDONYM_LENGTH = 10;
+
+// Length of the IDs issued before, still restored in older conversations
+const LEGACY_PSEUDONYM_LENGTH = 6;
+
+export const PSEUDONYM_ID_PATTERN = `(?:[0-9a-f]{${PSEUDONYM_LENGTH}}|[0-9a-f]{${LEGACY_PSEUDONYM_LENGTH}})`;
+
+const encoder = new TextEncoder();
+
+type PseudonymRule = Pick<Rule, 'placeholder' | 'caseSensitive' | 'normalize'>;
+
+// Tokens of every value a rule lists, per rule and key
+const candidateCache = new WeakMap<Rule, { key: Uint8Array; tokens: Map<string, string> }>();
+
+/**
+ * Keyed token for a value, the same in every session for the same key
+ * Values that only differ in the ways the rule ignores (case, disguises) share a token.
+ */
+export function pseudonymFor(rule: PseudonymRule, value: string, key: Uint8Array): string {
+  return numberedPlaceholder(rule.placeholder, pseudonymHash(rule, value, key).slice(0, PSEUDONYM_LENGTH));
+}
+
+/**
+ * Full HMAC of a value in hex, which IDs are cut from
+ */
+function pseudonymHash(rule: PseudonymRule, value: string, key: Uint8Array): string {
+  const canonical = rule.normalize ? normalizeValue(value) : value;
+  const input = rule.caseSensitive ? canonical : canonical.toLowerCase();
+  return toHex(hmacSha256(key, encoder.encode(input)));
+}
+
+/**
+ * Tokens of the values a rule lists, mapped back to the values
+ * Exact and dictionary rules name their values, so their tokens can be restored in any session;
+ * regex and detector tokens are only restored in the session that issued them.
+ */
+export function pseudonymCandidates(rule: Rule, key: Uint8Array): Map<string, string> {
+  const cached = candidateCache.get(rule);
+  if (cached && cached.key === key) {
+    return cached.tokens;
+  }
+
+  const values = rule.type === 'dictionary' ? rule.terms ?? [] : rule.type === 'exact' ? [rule.original] : [];
+  const tokens = new Map<string, string>();
+  for (const value of values) {
+    const hash = pseudonymHash(rule, value, key);
+    for (const length of [PSEUDONYM_LENGTH, LEGACY_PSEUDONYM_LENGTH]) {
+      const token = numberedPlaceholder(rule.placeholder, hash.slice(0, length));
+      // A truncated HMAC can collide; the first listed value keeps the token
+      if (!tokens.has(token)) {
+        tokens.set(token, value);
+      }
+    }
+  }
+
+  candidateCache.set(rule, { key, tokens });
+  return tokens;
+}
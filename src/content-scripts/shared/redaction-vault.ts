@@ -0,0 +1,160 @@
+import type { Rule } from '../../types';
+import { createTransformKeys, type TransformKeys } from './transforms';
+
+/**
+ * Build a numbered token from a placeholder
+ * A trailing closing bracket is kept at the end: `[EMAIL]` + 2 → `[EMAIL_2]`
+ */
+export function numberedPlaceholder(placeholder: string, n: number | string): string {
+  const closer = placeholder.match(/[\])}>]$/);
+  if (closer) {
+    return `${placeholder.slice(0, -1)}_${n}${closer[0]}`;
+  }
+  return `${placeholder}_${n}`;
+}
+
+/**
+ * Session mapping between issued tokens and the values they replaced
+ * Lives only in memory so real values never reach storage
+ */
+export class RedactionVault {
+  private values: Map<string, string> = new Map();   // token → original value
+  private tokens: Map<string, string> = new Map();   // placeholder + value → token
+  private counters: Map<string, number> = new Map(); // placeholder → last issued number
+  private issued: Map<string, string[]> = new Map(); // placeholder → tokens issued for it
+  private wraps: Map<string, string> = new Map();    // token → quotes put around it in structured data
+  private keys: TransformKeys | undefined;           // Date offset and amount factor, picked on first use
+  private secret: Uint8Array | undefined;            // Per-user pseudonym key, kept across sessions
+
+  /**
+   * Get the token for a matched value, issuing the next number for new values
+   * @param render - Builds the token from the value's number, for template placeholders
+   * @param lookup - Form the value is known by, so variants of it share a token; the first one seen is restored
+   */
+  public tokenFor(rule: Rule, value: string, render?: (n: number) => string, lookup = value): string {
+    const key = `${rule.placeholder}\u0000${lookup}`;
+    const existing = this.tokens.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const next = (this.counters.get(rule.placeholder) ?? 0) + 1;
+    const rendered = render ? render(next) : numberedPlaceholder(rule.placeholder, next);
+
+    // Templates like `[LEN_{{len}}]` can render the same token for different values;
+    // every token must map back to exactly one value
+    let token = rendered;
+    for (let suffix = 2; this.values.has(token); suffix++) {
+      token = numberedPlaceholder(rendered, suffix);
+    }
+
+    this.counters.set(rule.placeholder, next);
+    this.tokens.set(key, token);
+    this.values.set(token, value);
+    const issued = this.issued.get(rule.placeholder) ?? [];
+    issued.push(token);
+    this.issued.set(rule.placeholder, issued);
+    return token;
+  }
+
+  /**
+   * Record another token for a value, such as the last name of a surrogate full name
+   * Tokens already in use are left alone, so an alias never takes over another value
+   */
+  public alias(rule: Rule, token: string, value: string): void {
+    if (this.values.has(token)) {
+      return;
+    }
+    this.values.set(token, value);
+    const issued = this.issued.get(rule.placeholder) ?? [];
+    issued.push(token);
+    this.issued.set(rule.placeholder, issued);
+  }
+
+  /**
+   * Point a token at a longer value, when the value it was issued for turns out to be the start of one
+   * still being typed; a value that already has a token keeps it
+   * @returns The token now standing for the value
+   */
+  public extend(rule: Rule, token: string, value: string): string {
+    const existing = this.tokens.get(`${rule.placeholder}\u0000${value}`);
+    const previous = this.values.get(token);
+    if (existing || previous === undefined) {
+      return existing ?? this.tokenFor(rule, value);
+    }
+    this.tokens.delete(`${rule.placeholder}\u0000${previous}`);
+    this.tokens.set(`${rule.placeholder}\u0000${value}`, token);
+    this.values.set(token, value);
+    return token;
+  }
+
+  /**
+   * Record the quotes put around a token so it stays a string, such as in place of a JSON number
+   */
+  public addWrap(token: string, wrap: string): void {
+    this.wraps.set(token, wrap);
+  }
+
+  /**
+   * Quotes put around a token when it was issued, to be dropped when it is restored
+   */
+  public wrapOf(token: string): string | undefined {
+    return this.wraps.get(token);
+  }
+
+  /**
+   * Tokens issued so far for a placeholder
+   */
+  public issuedTokens(placeholder: string): string[] {
+    return this.issued.get(placeholder) ?? [];
+  }
+
+  /**
+   * Hidden date offset and amount factor shared by every shifted value in the session
+   */
+  public get transformKeys(): TransformKeys {
+    this.keys ??= createTransformKeys();
+    return this.keys;
+  }
+
+  /**
+   * Whether any value has been shifted yet, so there is something to shift back
+   */
+  public get hasTransformKeys(): boolean {
+    return this.keys !== undefined;
+  }
+
+  /**
+   * Per-user key for stable pseudonyms, loaded from the extension
+   */
+  public get pseudonymKey(): Uint8Array | undefined {
+    return this.secret;
+  }
+
+  public setPseudonymKey(key: Uint8Array): void {
+    this.secret = key;
+  }
+
+  /**
+   * Look up the original value behind a token
+   */
+  public resolve(token: string): string | undefined {
+    return this.values.get(token);
+  }
+
+  public get size(): number {
+    return this.values.size;
+  }
+
+  public clear(): void {
+    this.values.clear();
+    this.tokens.clear();
+    this.counters.clear();
+    this.issued.clear();
+    this.wraps.clear();
+    this.keys = undefined;
+  }
+}
+
+// Shared by the input handlers and the clipboard listener of a content script
+export const sessionVault = new RedactionVault();
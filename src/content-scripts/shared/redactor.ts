@@ -1,8 +1,68 @@
-import type { Rule, RedactionResult } from '../../types';
+import type { Detection, Encoding, ExceptionHit, Rule, RuleException, RedactionMatch, RedactionResult } from '../../types';
+import { RedactionVault, numberedPlaceholder } from './redaction-vault';
+import { getDetector, type Detector, type DetectorId } from './detectors';
+import { isAtBoundary } from './boundaries';
+import { normalizeForMatching, normalizeValue, toOriginalSpan, type NormalizedText } from './normalize';
+import { AhoCorasick } from './aho-corasick';
+import { analyzeRegex } from './regex-safety';
+import {
+  isTemplate,
+  isValueTemplate,
+  renderTemplate,
+  templatePattern,
+  templateRuleName,
+  validatePlaceholder,
+} from './placeholder-template';
+import { applyTransform, isOneWay, isShift, MASKED_SPAN, reverseTransform } from './transforms';
+import { surrogateAliases } from './surrogates';
+import { PSEUDONYM_ID_PATTERN, pseudonymCandidates, pseudonymFor } from './pseudonyms';
+import { buildContextRegex, buildValueRegex, findContextValues } from './context-rules';
+import { compileExceptions, findException, type CompiledException } from './exceptions';
+import { findCodeSpans, isInCode, toIdentifier } from './code-blocks';
+import { findUrls } from './urls';
+import { findPaths } from './paths';
+import { findEncodedRuns, type EncodedRun } from './encodings';
+import { buildDomainRegex, parseDomains } from './domains';
 
 interface CompiledRule extends Rule {
   regex?: RegExp;                // Compiled regex pattern
-  sortPriority: number;          // For sorting (exact=2, regex=1, then by rule.priority)
+  detector?: Detector;           // Built-in detector for detector rules
+  automaton?: AhoCorasick;       // Term automaton for dictionary rules
+  contextRegex?: RegExp;         // Keyword, window and value pattern for keyvalue rules
+  valueRegex?: RegExp;           // Value pattern alone for keyvalue rules, to extend a value typed after its token
+  compiledExceptions: CompiledException[]; // The rule's own exceptions
+  placeholderRegex: RegExp;      // Matches every placeholder this rule can emit
+  codePlaceholder: string;       // Identifier form of the placeholder, under which code-safe tokens are issued
+  codeRegex: RegExp;             // Matches every code-safe token this rule can emit
+  perValueTokens: boolean;       // Each distinct match gets its own numbered token (never for masking rules)
+  template?: string;             // Placeholder template rendered for each distinct match
+  literalTokens: boolean;        // Issued tokens have no fixed shape and are looked up as issued (templates, shifts)
+  sortPriority: number;          // For sorting (exact=3, dictionary=2, regex, keyvalue and domain=1, detector=0, then by rule.priority)
+}
+
+// Detectors whose matches run on for as long as the value is typed, and so are left alone while they end at the caret
+const OPEN_ENDED_DETECTORS = new Set<DetectorId>(['file-path', 'url', 'config-secrets', 'high-entropy']);
+
+// Automatons are costly to build for large lists, so they are reused while the term list is unchanged
+const automatonCache = new WeakMap<string[], Map<string, AhoCorasick>>();
+
+/**
+ * Get the automaton for a dictionary's terms, building it on first use
+ */
+function getAutomaton(terms: string[], caseSensitive: boolean, normalize: boolean): AhoCorasick {
+  const key = `${caseSensitive}:${normalize}`;
+  let byFlags = automatonCache.get(terms);
+  if (!byFlags) {
+    byFlags = new Map();
+    automatonCache.set(terms, byFlags);
+  }
+
+  let automaton = byFlags.get(key);
+  if (!automaton) {
+    automaton = new AhoCorasick(normalize ? terms.map(normalizeValue) : terms, caseSensitive);
+    byFlags.set(key, automaton);
+  }
+  return automaton;
 }
 
 /**
@@ -10,18 +70,37 @@ interface CompiledRule extends Rule {
  */
 export function compileRule(rule: Rule): CompiledRule {
   let regex: RegExp | undefined;
+  let detector: Detector | undefined;
+  let automaton: AhoCorasick | undefined;
+  let contextRegex: RegExp | undefined;
+  let valueRegex: RegExp | undefined;
   let sortPriority: number = 1; // Default priority
 
   switch (rule.type) {
     case 'exact': {
-      // For exact matches, create a regex with word boundaries
-      const escapedOriginal = escapeRegExp(rule.original);
+      // For exact matches, escape the original so it is matched literally;
+      // word or delimiter boundaries are checked per match (see isAtBoundary)
+      const escapedOriginal = escapeRegExp(rule.normalize ? normalizeValue(rule.original) : rule.original);
       regex = new RegExp(escapedOriginal, rule.caseSensitive ? 'g' : 'gi');
-      sortPriority = 2;
+      sortPriority = 3;
       break;
     }
 
-    case 'regex':
+    case 'dictionary':
+      // Term lists are matched in one scan regardless of their size
+      automaton = getAutomaton(rule.terms || [], rule.caseSensitive, !!rule.normalize);
+      sortPriority = 2;
+      break;
+
+    case 'regex': {
+      // Patterns prone to catastrophic backtracking would freeze the page, so they never run
+      const { errors } = analyzeRegex(rule.original, rule.caseSensitive);
+      if (errors.length > 0) {
+        console.error(`Unsafe regex pattern in rule ${rule.id}:`, errors[0]);
+        sortPriority = 1;
+        break;
+      }
+
       // Use provided regex pattern directly
       try {
         // Apply case sensitivity: if caseSensitive is true, use 'g' flag only
@@ -35,15 +114,124 @@ export function compileRule(rule: Rule): CompiledRule {
       }
       sortPriority = 1;
       break;
+    }
+
+    case 'keyvalue': {
+      // Custom value patterns get the same safety check as regex rules
+      const pattern = rule.context?.shape === 'custom' ? rule.context.pattern ?? '' : '';
+      const unsafe = pattern ? analyzeRegex(pattern, rule.caseSensitive).errors[0] : undefined;
+      if (unsafe) {
+        console.error(`Unsafe value pattern in rule ${rule.id}:`, unsafe);
+      } else {
+        contextRegex = (rule.context && buildContextRegex(rule.context, rule.caseSensitive)) || undefined;
+        valueRegex = (rule.context && buildValueRegex(rule.context, rule.caseSensitive)) || undefined;
+        if (!contextRegex) {
+          console.error(`Invalid keywords or value pattern in rule ${rule.id}`);
+        }
+      }
+      sortPriority = 1;
+      break;
+    }
+
+    case 'domain':
+      // Emails, hostnames and URLs under the listed domains, subdomains included
+      regex = buildDomainRegex(parseDomains(rule.original)) ?? undefined;
+      if (!regex) {
+        console.error(`No valid domains in rule ${rule.id}`);
+      }
+      sortPriority = 1;
+      break;
+
+    case 'detector':
+      // Built-in recognizers validate their candidates, so they rank after user-defined rules
+      detector = getDetector(rule.original);
+      if (!detector) {
+        console.error(`Unknown detector "${rule.original}" in rule ${rule.id}`);
+      }
+      sortPriority = 0;
+      break;
+  }
+
+  const ruleName = templateRuleName(rule);
+
+  // Tokens of a template made of fields alone can't be told from other text, so the rule name stands in
+  const invalidPlaceholder = validatePlaceholder(rule.placeholder);
+  if (invalidPlaceholder) {
+    console.error(`Invalid placeholder in rule ${rule.id}:`, invalidPlaceholder);
   }
+  const rulePlaceholder = invalidPlaceholder ? `[${ruleName}]` : rule.placeholder;
+
+  // Masking rules fall back to the plain placeholder when the mask does not apply
+  const perValueTokens = rule.type !== 'exact' && !rule.transform;
+  const pseudonymous = rule.transform?.kind === 'pseudonym';
+  const templated = isTemplate(rulePlaceholder) && !pseudonymous;
+
+  // An exact rule always replaces the same text, so its template is rendered once
+  const placeholder = templated && rule.type === 'exact'
+    ? renderTemplate(rulePlaceholder, { value: rule.original, n: 1, ruleName })
+    : rulePlaceholder;
+
+  const template = templated && perValueTokens ? rulePlaceholder : undefined;
+  const idPattern = perValueTokens ? '\\d+' : pseudonymous ? PSEUDONYM_ID_PATTERN : undefined;
 
   return {
     ...rule,
+    placeholder,
     regex,
+    detector,
+    automaton,
+    contextRegex,
+    valueRegex,
+    compiledExceptions: compileExceptions(rule.exceptions),
+    placeholderRegex: (template && buildTemplateRegex(template, ruleName))
+      || buildPlaceholderRegex(placeholder, idPattern, pseudonymous),
+    codePlaceholder: toIdentifier(placeholder),
+    codeRegex: (template && buildTemplateRegex(template, ruleName, true))
+      || buildCodeRegex(toIdentifier(placeholder), idPattern),
+    perValueTokens,
+    template,
+    literalTokens: (templated && perValueTokens) || (!!rule.transform && !isOneWay(rule.transform) && !pseudonymous),
     sortPriority,
   };
 }
 
+/**
+ * Build a regex matching the placeholder, or its numbered tokens for per-value and pseudonym rules
+ * @param idPattern - Pattern of the number or ID added to the placeholder, if any
+ * @param withPlain - Also match the plain placeholder, which pseudonym rules emit before the key is loaded
+ */
+function buildPlaceholderRegex(placeholder: string, idPattern?: string, withPlain = false): RegExp {
+  const plain = escapeRegExp(placeholder);
+  if (!idPattern) {
+    return new RegExp(plain, 'g');
+  }
+  const marker = '\u0000';
+  const pattern = escapeRegExp(numberedPlaceholder(placeholder, marker)).replace(marker, idPattern);
+  return new RegExp(withPlain ? `${pattern}|${plain}` : pattern, 'g');
+}
+
+/**
+ * Build a regex matching the tokens a template renders, plain or numbered, or the identifiers made from them
+ * @returns The regex, or null when the template is made of fields alone
+ */
+function buildTemplateRegex(template: string, ruleName: string, identifier = false): RegExp | null {
+  if (identifier) {
+    const pattern = templatePattern(template, ruleName, toIdentifier, '[\\p{L}\\p{N}_]+?');
+    return pattern === null ? null : new RegExp(`${pattern}(?:_\\d+)*`, 'gu');
+  }
+  const plain = templatePattern(template, ruleName);
+  const numbered = templatePattern(numberedPlaceholder(template, '{{n}}'), ruleName);
+  return plain === null || numbered === null ? null : new RegExp(`${numbered}|${plain}`, 'gu');
+}
+
+/**
+ * Build a regex matching the code-safe tokens of a placeholder: numbered, or named after a pseudonym
+ */
+function buildCodeRegex(codePlaceholder: string, idPattern?: string): RegExp {
+  const ids = idPattern && idPattern !== '\\d+' ? `(?:\\d+|${idPattern})` : '\\d+';
+  return new RegExp(`${escapeRegExp(codePlaceholder)}_${ids}`, 'g');
+}
+
 /**
  * Escape special regex characters for exact matching
  */
@@ -51,84 +239,828 @@ function escapeRegExp(text: string): string {
   return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+export interface RuleSetOptions {
+  budgetMs?: number;             // Longest a regex rule may take to match one text
+  onBudgetExceeded?: (rule: Rule, elapsedMs: number) => void;
+  onDetections?: (detections: Detection[]) => void; // Called after a redaction with scored detector matches
+  exceptions?: RuleException[];  // Global exceptions, checked for every rule after its own
+}
+
+export interface RedactOptions {
+  caret?: number;                // Caret offset while the user is typing; values ending there may still grow
+}
+
 /**
- * Redact text using the provided rules
- * @param text - The text to redact
- * @param rules - Array of redaction rules
- * @returns RedactionResult with redacted text and applied rule IDs
+ * Rules compiled once and reused for every redaction
+ * Build a new set whenever the rules change; `redact` and `unredact` also accept plain
+ * rule arrays, which are compiled on every call.
+ *
+ * With a budget, each regex rule is timed while matching. A regex cannot be interrupted,
+ * so a rule that runs over is skipped for the rest of the set's life and reported.
+ */
+export class CompiledRuleSet {
+  public readonly rules: Rule[];
+  public readonly active: CompiledRule[];        // Enabled rules, highest precedence first
+  public readonly reversible: CompiledRule[];    // Enabled rules with a placeholder to restore, masks excluded
+  public readonly exceptions: CompiledException[]; // Global exceptions
+  private options: RuleSetOptions;
+  private overBudget = new Set<string>();
+
+  constructor(rules: Rule[], options: RuleSetOptions = {}) {
+    this.rules = rules;
+    this.options = options;
+    this.active = rules.filter((rule) => rule.enabled).map(compileRule);
+    this.active.sort(compareRulePrecedence);
+    this.reversible = this.active.filter((rule) => rule.placeholder && !(rule.transform && isOneWay(rule.transform)));
+    this.exceptions = compileExceptions(options.exceptions);
+  }
+
+  get isEmpty(): boolean {
+    return this.active.length === 0;
+  }
+
+  /**
+   * Match every active rule, timing regex and keyvalue rules against the budget
+   */
+  public match(context: MatchContext): RuleMatch[] {
+    const { budgetMs, onBudgetExceeded } = this.options;
+    const matches: RuleMatch[] = [];
+
+    for (const rule of this.active) {
+      if (budgetMs === undefined || (rule.type !== 'regex' && rule.type !== 'keyvalue')) {
+        matches.push(...findRuleMatches(context, rule));
+        continue;
+      }
+      if (this.overBudget.has(rule.id)) {
+        continue;
+      }
+
+      const started = performance.now();
+      matches.push(...findRuleMatches(context, rule));
+      const elapsedMs = performance.now() - started;
+
+      if (elapsedMs > budgetMs) {
+        this.overBudget.add(rule.id);
+        onBudgetExceeded?.(rule, elapsedMs);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Pass the scored detector matches of a redaction to the listener, if there are any
+   */
+  public reportDetections(detections: Detection[]): void {
+    if (detections.length > 0) {
+      this.options.onDetections?.(detections);
+    }
+  }
+}
+
+function toRuleSet(rules: Rule[] | CompiledRuleSet): CompiledRuleSet {
+  return rules instanceof CompiledRuleSet ? rules : new CompiledRuleSet(rules);
+}
+
+interface RuleMatch {
+  rule: CompiledRule;            // Rule that produced the match
+  start: number;                 // Start offset in the original text (inclusive)
+  end: number;                   // End offset in the original text (exclusive)
+  groups?: (string | undefined)[]; // Regex capture groups, for placeholder templates
+  namedGroups?: Record<string, string | undefined>;
+  confidence?: number;           // Score of heuristic detector matches
+  wrap?: string;                 // Put around the replacement, from structured data detectors
+  remove?: boolean;              // Replaced by nothing, such as a stripped query parameter
+  encoding?: Encoding;           // Encoding of a run whose decoded text holds an exact rule's original
+  value?: string;                // Value the match stands for, when it is not the matched text
+  continues?: string;            // Token at the start of the match whose value goes on after it
+}
+
+/**
+ * Text being matched, with its normalized view and decoded runs built on first use
+ */
+interface MatchContext {
+  text: string;
+  normalized: () => NormalizedText;
+  encodedRuns: () => EncodedRun[];
+}
+
+function createMatchContext(text: string): MatchContext {
+  let normalized: NormalizedText | undefined;
+  let encodedRuns: EncodedRun[] | undefined;
+  return {
+    text,
+    normalized: () => (normalized ??= normalizeForMatching(text)),
+    encodedRuns: () => (encodedRuns ??= findEncodedRuns(text)),
+  };
+}
+
+interface PlaceholderMatch extends RuleMatch {
+  original: string;              // Text the placeholder stands for
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Compare two compiled rules by precedence
+ * Exact rules (3) come before dictionaries (2), regex rules (1) and detectors (0), then lower priority number wins
  */
-export function redact(text: string, rules: Rule[]): RedactionResult {
-  if (!text || rules.length === 0) {
-    return { text, appliedRules: [] };
+function compareRulePrecedence(a: CompiledRule, b: CompiledRule): number {
+  if (a.sortPriority !== b.sortPriority) {
+    return b.sortPriority - a.sortPriority;
   }
+  return a.priority - b.priority;
+}
 
-  // Filter enabled rules and compile them
-  const enabledRules = rules.filter((rule) => rule.enabled);
-  const compiledRules = enabledRules.map(compileRule);
+/**
+ * Collect every non-empty match of a regex in the text on behalf of a rule
+ * @param accept - Optional check on each span; a rejected match is retried one character later
+ */
+function findMatches(
+  text: string,
+  regex: RegExp,
+  rule: CompiledRule,
+  accept?: (start: number, end: number) => boolean
+): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  // Compiled regexes are reused across calls, so the scan always restarts from the beginning
+  const scanner = regex;
+  scanner.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = scanner.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches so patterns like `a*` cannot loop forever
+      scanner.lastIndex++;
+      continue;
+    }
 
-  // Sort by type priority first (exact=2, regex=1), then by rule priority (lower number = higher priority)
-  compiledRules.sort((a, b) => {
-    if (a.sortPriority !== b.sortPriority) {
-      return b.sortPriority - a.sortPriority; // Exact (2) before regex (1)
+    const end = match.index + match[0].length;
+    if (accept && !accept(match.index, end)) {
+      scanner.lastIndex = match.index + 1;
+      continue;
     }
-    return a.priority - b.priority; // Within same type, lower priority number = higher priority
+    matches.push({ rule, start: match.index, end, groups: match.slice(1), namedGroups: match.groups });
+  }
+
+  return matches;
+}
+
+/**
+ * Collect the term matches of a dictionary automaton, dropping those rejected by `accept`
+ */
+function findTermMatches(
+  text: string,
+  automaton: AhoCorasick,
+  rule: CompiledRule,
+  accept?: (start: number, end: number) => boolean
+): RuleMatch[] {
+  return automaton
+    .search(text)
+    .filter((match) => !accept || accept(match.start, match.end))
+    .map((match) => ({ rule, ...match }));
+}
+
+type Matcher = (text: string, accept?: (start: number, end: number) => boolean) => RuleMatch[];
+
+/**
+ * Boundary check for exact and dictionary rules
+ * For exact rules it also applies to their placeholders during un-redaction
+ */
+function boundaryCheck(text: string, rule: CompiledRule): ((start: number, end: number) => boolean) | undefined {
+  if ((rule.type !== 'exact' && rule.type !== 'dictionary') || !rule.boundary || rule.boundary === 'none') {
+    return undefined;
+  }
+  return (start, end) => isAtBoundary(text, start, end, rule);
+}
+
+/**
+ * Match a rule against the normalized view of the text and map the spans back
+ * Boundaries are still checked against the original text
+ */
+function findNormalizedMatches(context: MatchContext, rule: CompiledRule, matcher: Matcher): RuleMatch[] {
+  const view = context.normalized();
+  const check = boundaryCheck(context.text, rule);
+  const accept = check
+    ? (start: number, end: number) => {
+        const span = toOriginalSpan(view, start, end);
+        return check(span.start, span.end);
+      }
+    : undefined;
+
+  return matcher(view.text, accept).map((match) => ({
+    ...match,
+    ...toOriginalSpan(view, match.start, match.end),
+  }));
+}
+
+/**
+ * Collect the matches of a compiled rule, whether regex, dictionary or detector based
+ */
+function findRuleMatches(context: MatchContext, rule: CompiledRule): RuleMatch[] {
+  const { text } = context;
+  if (rule.detector) {
+    return rule.detector.find(text, rule.detectorOptions).map((match) => ({ rule, ...match }));
+  }
+
+  const { regex, automaton, contextRegex } = rule;
+  let matcher: Matcher;
+  if (contextRegex) {
+    matcher = (target, accept) => findContextValues(target, contextRegex, rule.context?.shape)
+      .filter((span) => !accept || accept(span.start, span.end))
+      .map((span) => ({ rule, ...span }));
+  } else if (automaton) {
+    matcher = (target, accept) => findTermMatches(target, automaton, rule, accept);
+  } else if (regex) {
+    matcher = (target, accept) => findMatches(target, regex, rule, accept);
+  } else {
+    return [];
+  }
+
+  const matches = rule.normalize ? findNormalizedMatches(context, rule, matcher) : matcher(text, boundaryCheck(text, rule));
+  return rule.type === 'exact' && rule.matchEncoded ? [...matches, ...findEncodedMatches(context, rule)] : matches;
+}
+
+/**
+ * Find base64, percent-encoded and hex runs that decode to text containing an exact rule's original
+ * The whole run is matched, as part of an encoding can't be replaced on its own. Runs holding the
+ * original as plain text are left to the plain match.
+ */
+function findEncodedMatches(context: MatchContext, rule: CompiledRule): RuleMatch[] {
+  const fold = (value: string) => (rule.caseSensitive ? value : value.toLowerCase());
+  const original = fold(rule.original);
+  return context.encodedRuns()
+    .filter((run) => fold(run.decoded).includes(original) && !fold(context.text.slice(run.start, run.end)).includes(original))
+    .map((run) => ({ rule, start: run.start, end: run.end, encoding: run.encoding }));
+}
+
+/**
+ * Find tokens a template rule has issued in this session
+ * Rendered tokens have no fixed shape, so they are looked up literally, longest first
+ */
+function findIssuedTokens(text: string, rule: CompiledRule, vault: RedactionVault): RuleMatch[] {
+  const tokens = vault.issuedTokens(rule.placeholder);
+  if (tokens.length === 0) {
+    return [];
+  }
+  const pattern = [...tokens].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  // Fake names and cities are ordinary words, so they only count as whole words
+  const check = rule.transform?.kind === 'surrogate'
+    ? (start: number, end: number) => isAtBoundary(text, start, end, { boundary: 'word' })
+    : undefined;
+  return findMatches(text, new RegExp(pattern, 'g'), rule, check);
+}
+
+/**
+ * Find the code-safe tokens a rule has issued in this session
+ * They can sit inside longer identifiers like `CLIENT_1_internal`, so no boundary is checked.
+ */
+function findCodeTokens(text: string, rule: CompiledRule, vault: RedactionVault): RuleMatch[] {
+  const tokens = vault.issuedTokens(rule.codePlaceholder);
+  if (tokens.length === 0) {
+    return [];
+  }
+  const pattern = [...tokens].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return findMatches(text, new RegExp(pattern, 'g'), rule);
+}
+
+/**
+ * Find tokens of a keyvalue rule directly followed by more of their value, as when the value is typed one
+ * character at a time: `password: [SECRET_1]unter2`
+ * The match covers the token and the rest of the value, and stands for the whole value.
+ */
+function findContinuedValues(text: string, rule: CompiledRule, vault: RedactionVault): RuleMatch[] {
+  const { valueRegex } = rule;
+  if (!valueRegex) {
+    return [];
+  }
+  const tokens = rule.literalTokens ? findIssuedTokens(text, rule, vault) : findMatches(text, rule.placeholderRegex, rule);
+  return tokens.flatMap((match) => {
+    const token = text.slice(match.start, match.end);
+    const original = vault.resolve(token);
+    const rest = text.slice(match.end).split('\n', 1)[0];
+    if (original === undefined || !rest) {
+      return [];
+    }
+    const value = valueRegex.exec(original + rest)?.[0] ?? '';
+    return value.length > original.length
+      ? [{ rule, start: match.start, end: match.end + value.length - original.length, value, continues: token }]
+      : [];
   });
+}
 
-  let redactedText = text;
-  const appliedRules: string[] = [];
+/**
+ * Find placeholders that are already present in the text
+ * Matches overlapping these spans are discarded so a placeholder is never redacted again. Numbered,
+ * template and code-safe tokens are known by their shape, so a fresh vault still leaves them alone.
+ */
+function findPlaceholderSpans(text: string, rules: CompiledRule[], vault: RedactionVault): Span[] {
+  const spans: Span[] = rules
+    .filter((rule) => rule.placeholder)
+    .flatMap((rule) => [
+      ...findMatches(text, rule.placeholderRegex, rule),
+      ...findMatches(text, rule.codeRegex, rule),
+      ...(rule.literalTokens ? findIssuedTokens(text, rule, vault) : []),
+      ...findCodeTokens(text, rule, vault),
+    ]);
+
+  // Masked values are protected by their mask characters
+  if (rules.some((rule) => rule.transform)) {
+    for (const match of text.matchAll(MASKED_SPAN)) {
+      spans.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Get the token that replaces a match of a per-value rule
+ */
+function tokenForMatch(match: RuleMatch, value: string, vault: RedactionVault): string {
+  const { rule } = match;
+  const template = rule.template;
+  if (!template) {
+    // A value still being typed keeps the token issued for its start
+    return match.continues ? vault.extend(rule, match.continues, value) : vault.tokenFor(rule, value);
+  }
 
-  // Apply each rule
-  for (const rule of compiledRules) {
-    if (rule.regex) {
-      const before = redactedText;
-      redactedText = redactedText.replace(rule.regex, rule.placeholder);
+  return vault.tokenFor(rule, value, (n) => {
+    const rendered = renderTemplate(template, {
+      value,
+      groups: match.groups,
+      namedGroups: match.namedGroups,
+      n,
+      ruleName: templateRuleName(rule),
+    });
+    // A template that ignores the value still needs a number to tell values apart
+    return isValueTemplate(template) ? rendered : numberedPlaceholder(rendered, n);
+  });
+}
 
-      // Track if rule was applied
-      if (before !== redactedText) {
-        appliedRules.push(rule.id);
+/**
+ * Get the text that replaces a match: a mask, a per-value token or the placeholder
+ */
+function replacementFor(match: RuleMatch, value: string, vault: RedactionVault): string {
+  const { rule } = match;
+  if (rule.transform && isOneWay(rule.transform)) {
+    return applyTransform(rule.transform, value) ?? rule.placeholder;
+  }
+  if (rule.transform?.kind === 'pseudonym') {
+    const key = vault.pseudonymKey;
+    if (!key) {
+      return rule.placeholder;
+    }
+    // Values sharing a token, like different capitalizations, are restored to the first one seen
+    const token = pseudonymFor(rule, value, key);
+    vault.alias(rule, token, value);
+    return token;
+  }
+  if (rule.transform) {
+    // Shifted and fake values are recorded so they are restored exactly and never transformed twice
+    const { transform } = rule;
+    const keys = vault.transformKeys;
+    if (applyTransform(transform, value, keys) === null) {
+      return rule.placeholder;
+    }
+    // "John Smith" and "john smith" are one person, so case variants of a surrogate value share a fake
+    const lookup = transform.kind === 'surrogate' ? value.toLowerCase() : value;
+    const render = (n: number) => applyTransform(transform, value, keys, n) ?? rule.placeholder;
+    const token = vault.tokenFor(rule, value, render, lookup);
+    if (transform.kind === 'surrogate') {
+      for (const [alias, part] of surrogateAliases(transform.category ?? 'name', value, token)) {
+        vault.alias(rule, alias, part);
       }
     }
+    return token;
+  }
+  return rule.perValueTokens ? tokenForMatch(match, value, vault) : rule.placeholder;
+}
+
+/**
+ * Get the identifier that replaces a match inside code, numbered like the token used in text
+ * Masks, shifted values and fake values already read as plain values, so they are kept.
+ */
+function codeReplacementFor(match: RuleMatch, value: string, vault: RedactionVault): string {
+  const { rule } = match;
+  const replacement = replacementFor(match, value, vault);
+  if (rule.transform && rule.transform.kind !== 'pseudonym') {
+    return replacement;
   }
+  // A fixed placeholder gets numbered per distinct value, so every code token restores one value
+  const render = replacement !== rule.placeholder ? () => toIdentifier(replacement) : undefined;
+  return vault.tokenFor({ ...rule, placeholder: rule.codePlaceholder }, value, render);
+}
+
+/**
+ * Find the URLs and file paths in a text when a rule redacts their parts
+ * Every match inside them gets an identifier, so a URL stays valid and a path keeps its shape.
+ */
+function findShapedSpans(text: string, rules: CompiledRule[]): Span[] {
+  const detectorIds = new Set(rules.map((rule) => rule.detector?.id));
+  return [
+    ...(detectorIds.has('url') ? findUrls(text) : []),
+    ...(detectorIds.has('file-path') ? findPaths(text) : []),
+  ];
+}
+
+/**
+ * Find the exception that keeps a match in place: the rule's own first, then the global ones
+ */
+function exceptionFor(
+  ruleSet: CompiledRuleSet,
+  text: string,
+  match: RuleMatch
+): { exception: RuleException; global: boolean } | undefined {
+  const own = findException(match.rule.compiledExceptions, text, match.start, match.end);
+  if (own) {
+    return { exception: own, global: false };
+  }
+  const global = findException(ruleSet.exceptions, text, match.start, match.end);
+  return global && { exception: global, global: true };
+}
+
+/**
+ * Whether a match may be the start of a longer value the user is still typing
+ * Keyword values end wherever the typing pauses, so one ending inside a word at the caret is left for later.
+ * Usernames in paths, URL parts, config values and high-entropy tokens run to the caret in the same way.
+ * A name can still gain letters or a surname, so it waits until something other than spaces follows it.
+ */
+function isBeingTyped(text: string, match: RuleMatch, caret: number | undefined): boolean {
+  if (caret === undefined) {
+    return false;
+  }
+  const detectorId = match.rule.detector?.id;
+  if (detectorId === 'person-name') {
+    return caret >= match.start && /^[ \t]*$/.test(text.slice(match.end, caret));
+  }
+  if (match.end !== caret) {
+    return false;
+  }
+  return detectorId !== undefined && OPEN_ENDED_DETECTORS.has(detectorId)
+    || (match.rule.type === 'keyvalue' && /[\p{L}\p{N}]/u.test(text[match.end - 1] ?? ''));
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Order candidate matches by the redaction overlap policy (see `selectMatches`)
+ */
+function compareMatches(a: RuleMatch, b: RuleMatch): number {
+  const precedence = compareRulePrecedence(a.rule, b.rule);
+  if (precedence !== 0) {
+    return precedence;
+  }
+  const lengthDiff = (b.end - b.start) - (a.end - a.start);
+  if (lengthDiff !== 0) {
+    return lengthDiff;
+  }
+  return a.start - b.start;
+}
+
+/**
+ * Order placeholder matches for un-redaction: longest first, so `[NAME_12]` is never
+ * read as `[NAME_1]` followed by text
+ */
+function comparePlaceholderMatches(a: RuleMatch, b: RuleMatch): number {
+  const lengthDiff = (b.end - b.start) - (a.end - a.start);
+  if (lengthDiff !== 0) {
+    return lengthDiff;
+  }
+  return compareRulePrecedence(a.rule, b.rule) || a.start - b.start;
+}
+
+/**
+ * Settle overlapping matches into a non-overlapping set
+ *
+ * Overlap policy, applied in order:
+ * 1. The match from the higher-precedence rule wins (exact, dictionary, regex, detector, then lower priority number)
+ * 2. Between rules of equal precedence, the longer match wins
+ * 3. Between matches of equal length, the leftmost match wins
+ *
+ * @returns Accepted matches sorted by start offset
+ */
+function selectMatches<T extends RuleMatch>(
+  matches: T[],
+  protectedSpans: Span[],
+  compare: (a: T, b: T) => number = compareMatches
+): T[] {
+  const blocked = mergeSpans(protectedSpans);
+  const candidates = matches
+    .filter((match) => !overlapsSorted(blocked, match))
+    .sort(compare);
+
+  // Kept sorted by start as matches are accepted, so each overlap check is a binary search
+  const accepted: T[] = [];
+  for (const candidate of candidates) {
+    if (!overlapsSorted(accepted, candidate)) {
+      accepted.splice(firstEndingAfter(accepted, candidate.start), 0, candidate);
+    }
+  }
+
+  return accepted;
+}
+
+/**
+ * Sort spans by start and join the ones that overlap, so the result can be searched with `overlapsSorted`
+ */
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ start: span.start, end: span.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Index of the first span that ends after an offset, in spans sorted by start that don't overlap
+ */
+function firstEndingAfter(spans: Span[], offset: number): number {
+  let low = 0;
+  let high = spans.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (spans[mid].end <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Whether a span overlaps any of the spans sorted by start that don't overlap each other
+ */
+function overlapsSorted(spans: Span[], span: Span): boolean {
+  const next = spans[firstEndingAfter(spans, span.start)];
+  return next !== undefined && overlaps(next, span);
+}
+
+/**
+ * Redact text using the provided rules
+ *
+ * Every enabled rule is matched against the original text, overlaps are settled by
+ * `selectMatches`, and the output is built in a single pass. Placeholders, numbered and template tokens
+ * and code-safe identifiers already in the text are left alone, so `redact(redact(x).text)` yields the
+ * same text as `redact(x)`, even with a fresh vault such as after a page reload. Shifted dates and amounts
+ * and fake values read like any other value, so they are only recognized with the vault that issued them.
+ * Matches caught by one of the rule's exceptions or a global one are left in place and reported. Text
+ * kept by a global exception is left alone by every rule; a rule's own exception only stops that rule.
+ * Inside fenced code, inline code and text that reads as code, matches become identifiers like `CLIENT_1`
+ * unless the rule says otherwise (see `Rule.inCode`).
+ * With a URL or file path detector rule on, every match inside a URL or path becomes an identifier as well.
+ * While typing, a keyword value or name ending at the caret is left until the word is done, and more of a
+ * value typed right after its token is added to that token.
+ *
+ * @param text - The text to redact
+ * @param rules - Redaction rules, preferably an already compiled set
+ * @param vault - Session mapping that records the value behind each per-value token
+ * @param options - The caret offset, when redacting as the user types
+ * @returns RedactionResult with redacted text, applied rule IDs, the replacements made with their spans in
+ *   both texts, scored detector matches and exception hits
+ */
+export function redact(
+  text: string,
+  rules: Rule[] | CompiledRuleSet,
+  vault: RedactionVault = new RedactionVault(),
+  options: RedactOptions = {}
+): RedactionResult {
+  const ruleSet = toRuleSet(rules);
+  if (!text || ruleSet.isEmpty) {
+    return { text, appliedRules: [], matches: [] };
+  }
+
+  const compiledRules = ruleSet.active;
+
+  // A token followed by more of its value is replaced along with the rest, rather than protected
+  const continued = compiledRules.flatMap((rule) => findContinuedValues(text, rule, vault));
+  const allMatches = [...continued, ...ruleSet.match(createMatchContext(text))];
+  const protectedSpans = findPlaceholderSpans(text, compiledRules, vault)
+    .filter((span) => !continued.some((match) => match.start === span.start));
+
+  // Text kept by a global exception is protected like a placeholder, so no other rule redacts part of it;
+  // a rule's own exception only drops that rule's match, and other rules may still cover the text
+  const exceptionHits: ExceptionHit[] = [];
+  const excepted = new Set<RuleMatch>();
+  for (const match of allMatches) {
+    const hit = protectedSpans.some((span) => overlaps(match, span)) ? undefined : exceptionFor(ruleSet, text, match);
+    if (hit) {
+      excepted.add(match);
+      exceptionHits.push({
+        ruleId: match.rule.id,
+        text: text.slice(match.start, match.end),
+        start: match.start,
+        end: match.end,
+        ...hit,
+      });
+    }
+  }
+
+  // Report-only rules are listed in the detections but never replace text, and some rules leave code alone.
+  // A value still being typed keeps other rules off its partial text as well.
+  const codeSpans = findCodeSpans(text);
+  const shapedSpans = findShapedSpans(text, compiledRules);
+  const typing = allMatches.filter((match) => isBeingTyped(text, match, options.caret));
+  const selected = selectMatches(
+    allMatches.filter((match) => !match.rule.detectorOptions?.reportOnly
+      && !excepted.has(match)
+      && !(match.rule.inCode === 'skip' && isInCode(codeSpans, match.start))),
+    [...protectedSpans, ...exceptionHits.filter((hit) => hit.global), ...typing]
+  );
+
+  let redactedText = '';
+  let cursor = 0;
+  const applied = new Set<string>();
+  const matches: RedactionMatch[] = [];
+
+  for (const match of selected) {
+    const value = match.value ?? text.slice(match.start, match.end);
+    const codeSafe = isInCode(shapedSpans, match.start)
+      || ((match.rule.inCode ?? 'identifier') === 'identifier' && isInCode(codeSpans, match.start));
+    const token = match.remove ? '' : (codeSafe ? codeReplacementFor : replacementFor)(match, value, vault);
+    if (match.wrap && token) {
+      vault.addWrap(token, match.wrap);
+    }
+    const replacement = match.wrap && token ? match.wrap + token + match.wrap : token;
+
+    redactedText += text.slice(cursor, match.start);
+    matches.push({
+      ruleId: match.rule.id,
+      start: match.start,
+      end: match.end,
+      outputStart: redactedText.length,
+      outputEnd: redactedText.length + replacement.length,
+      text: value,
+      replacement,
+      ...(match.encoding && { encoding: match.encoding }),
+    });
+    redactedText += replacement;
+    cursor = match.end;
+    applied.add(match.rule.id);
+  }
+  redactedText += text.slice(cursor);
+
+  // Report applied rules in precedence order
+  const appliedRules = compiledRules
+    .filter((rule) => applied.has(rule.id))
+    .map((rule) => rule.id);
+
+  const detections: Detection[] = allMatches
+    .filter((match) => match.confidence !== undefined && !protectedSpans.some((span) => overlaps(match, span)))
+    .sort((a, b) => a.start - b.start)
+    .map((match) => ({
+      ruleId: match.rule.id,
+      text: text.slice(match.start, match.end),
+      start: match.start,
+      end: match.end,
+      confidence: match.confidence ?? 0,
+      redacted: selected.includes(match),
+    }));
+  ruleSet.reportDetections(detections);
 
   return {
     text: redactedText,
     appliedRules,
+    matches,
+    detections,
+    exceptions: exceptionHits.sort((a, b) => a.start - b.start),
   };
 }
 
+/**
+ * Map an offset in the input text of a redaction to the same place in the redacted text
+ * Offsets inside a replaced span move to the end of its replacement, so a cursor never lands inside a token.
+ * @param matches - Replacements from the RedactionResult
+ * @param offset - Offset in the input text, such as the cursor position
+ */
+export function mapOffset(matches: RedactionMatch[], offset: number): number {
+  let shift = 0;
+  for (const match of matches) {
+    if (offset <= match.start) {
+      break;
+    }
+    if (offset < match.end) {
+      return match.outputEnd;
+    }
+    shift = match.outputEnd - match.end;
+  }
+  return offset + shift;
+}
+
+/**
+ * Look up the value behind a placeholder found in redacted text
+ * Pseudonyms from earlier sessions are recomputed from the values exact and dictionary rules list
+ */
+function resolvePlaceholder(rule: CompiledRule, token: string, vault: RedactionVault): string | undefined {
+  if (rule.transform?.kind === 'pseudonym') {
+    // The plain placeholder stands for every value hidden without a key, so only an exact rule's is known
+    if (token === rule.placeholder) {
+      return rule.type === 'exact' ? rule.original : undefined;
+    }
+    const key = vault.pseudonymKey;
+    return vault.resolve(token) ?? (key ? pseudonymCandidates(rule, key).get(token) : undefined);
+  }
+  return rule.perValueTokens || rule.literalTokens ? vault.resolve(token) : rule.original;
+}
+
+/**
+ * Widen a placeholder match over the quotes put around its token when it was issued, so a JSON number
+ * or plain YAML value comes back as it was written
+ */
+function withoutWrap(text: string, match: PlaceholderMatch, vault: RedactionVault): PlaceholderMatch {
+  const wrap = vault.wrapOf(text.slice(match.start, match.end));
+  const before = match.start - (wrap?.length ?? 0);
+  if (!wrap || before < 0 || !text.startsWith(wrap, before) || !text.startsWith(wrap, match.end)) {
+    return match;
+  }
+  return { ...match, start: before, end: match.end + wrap.length };
+}
+
 /**
  * Un-redact text by reversing the placeholders back to originals
+ *
+ * Exact placeholders become the rule's original text. Numbered tokens of regex, dictionary and detector
+ * rules are looked up in the vault; tokens the vault does not know are left untouched. Tokens rendered
+ * from a placeholder template are found by the exact text the vault issued. Masks are one-way and never restored.
+ * Code-safe identifiers issued inside code, like `CLIENT_1`, are also found as issued.
+ * Quotes added around a token to keep structured data valid are removed with it.
+ * An encoded run replaced by an exact placeholder comes back as the plain original, not re-encoded.
+ * Dates and amounts the response derived from shifted ones are shifted back with the session's keys.
+ * Pseudonyms of exact and dictionary values are restored in any session with the user's key, and an exact
+ * rule's plain placeholder, used while no key is loaded, becomes its original.
+ *
  * @param text - The redacted text
- * @param rules - Array of redaction rules
+ * @param rules - Redaction rules, preferably an already compiled set
+ * @param vault - Session mapping holding the values behind per-value tokens
  * @returns Original text with placeholders replaced
  */
-export function unredact(text: string, rules: Rule[]): string {
-  if (!text || rules.length === 0) {
+export function unredact(
+  text: string,
+  rules: Rule[] | CompiledRuleSet,
+  vault: RedactionVault = new RedactionVault()
+): string {
+  const ruleSet = toRuleSet(rules);
+  if (!text || ruleSet.isEmpty) {
     return text;
   }
 
-  // Filter enabled rules
-  const enabledRules = rules.filter((rule) => rule.enabled);
+  const placeholderMatches: PlaceholderMatch[] = [];
+  let context: MatchContext | undefined;
+  for (const rule of ruleSet.reversible) {
+    const check = rule.type === 'exact' ? boundaryCheck(text, rule) : undefined;
+    const candidates = rule.literalTokens
+      ? findIssuedTokens(text, rule, vault)
+      : findMatches(text, rule.placeholderRegex, rule, check);
+    for (const match of candidates) {
+      const original = resolvePlaceholder(rule, text.slice(match.start, match.end), vault);
+      if (original !== undefined) {
+        placeholderMatches.push({ ...match, original });
+      }
+    }
 
-  let unredactedText = text;
+    // Code-safe tokens always map to one value in the vault, even for exact rules
+    for (const match of findCodeTokens(text, rule, vault)) {
+      const original = vault.resolve(text.slice(match.start, match.end));
+      if (original !== undefined) {
+        placeholderMatches.push({ ...match, original });
+      }
+    }
 
-  // Apply reverse replacements (placeholder -> original)
-  // Process in reverse priority order to handle overlapping rules correctly
-  const compiledRules = enabledRules.map(compileRule);
-  compiledRules.sort((a, b) => {
-    if (a.sortPriority !== b.sortPriority) {
-      return a.sortPriority - b.sortPriority; // Regex (1) before exact (2) for unredaction
+    // Issued values win over these, as they are listed first and have the same spans
+    if (rule.transform && isShift(rule.transform) && rule.type !== 'exact' && vault.hasTransformKeys) {
+      context ??= createMatchContext(text);
+      for (const match of findRuleMatches(context, rule)) {
+        const original = reverseTransform(rule.transform, text.slice(match.start, match.end), vault.transformKeys);
+        if (original !== null) {
+          placeholderMatches.push({ ...match, original });
+        }
+      }
     }
-    return b.priority - a.priority; // Within same type, higher priority number = higher priority for unredaction
-  });
+  }
 
-  for (const rule of compiledRules) {
-    // Create a regex to find the placeholder
-    const escapedPlaceholder = escapeRegExp(rule.placeholder);
-    const placeholderRegex = new RegExp(escapedPlaceholder, 'g');
+  const selected = selectMatches(
+    placeholderMatches.map((match) => withoutWrap(text, match, vault)),
+    [],
+    comparePlaceholderMatches
+  );
 
-    unredactedText = unredactedText.replace(placeholderRegex, rule.original);
+  let unredactedText = '';
+  let cursor = 0;
+  for (const match of selected) {
+    unredactedText += text.slice(cursor, match.start) + match.original;
+    cursor = match.end;
   }
+  unredactedText += text.slice(cursor);
 
   return unredactedText;
 }
@@ -0,0 +1,470 @@
+/**
+ * Static analysis of regex rule patterns for catastrophic backtracking (ReDoS)
+ *
+ * The pattern is parsed into a small tree where every term knows which characters it can
+ * match. A pattern is rejected when a repeated group can match the same text in more than
+ * one way (nested quantifiers, alternatives starting with the same characters), which makes
+ * backtracking exponential. A group repeated a fixed number of times, like (.*a){12}, is
+ * polynomial with the count as its power, so it is rejected from three repetitions on.
+ * Adjacent quantifiers over overlapping characters only slow down polynomially, so they
+ * produce a warning.
+ */
+export interface RegexSafetyReport {
+  errors: string[];              // Patterns that must not be saved or run
+  warnings: string[];            // Patterns that may be slow on long text
+}
+
+type ClassName = 'd' | 'w' | 's';
+
+interface CharSet {
+  any: boolean;                  // Matches (nearly) any character
+  ranges: [number, number][];    // Inclusive code unit ranges
+  classes: ClassName[];          // \d, \w and \s shorthand classes
+}
+
+interface Term {
+  set: CharSet;                  // Every character the term can consume
+  first: CharSet;                // Characters the term can start with
+  nullable: boolean;             // Can match the empty string
+  singleChar: boolean;           // Always consumes exactly one character
+  unbounded: boolean;            // Quantified with *, + or {n,}
+  repeated: boolean;             // Quantified with a maximum above one
+  maxRepeat: number;             // Most times the term can repeat, Infinity for *, + and {n,}
+  repeatsChar: boolean;          // A single-character term repeated, like \d+ or [a-z]*
+  alternatives?: Term[][];       // Body of a group
+}
+
+const CLASS_TESTS: Record<ClassName, RegExp> = { d: /\d/, w: /\w/, s: /\s/ };
+
+// Fixed repetition count from which an ambiguous group is rejected: (.*a){3} takes n³ steps
+const MAX_AMBIGUOUS_REPEAT = 3;
+
+const emptySet = (): CharSet => ({ any: false, ranges: [], classes: [] });
+const anySet = (): CharSet => ({ any: true, ranges: [], classes: [] });
+
+function union(a: CharSet, b: CharSet): CharSet {
+  return { any: a.any || b.any, ranges: [...a.ranges, ...b.ranges], classes: [...a.classes, ...b.classes] };
+}
+
+function isEmptySet(set: CharSet): boolean {
+  return !set.any && set.ranges.length === 0 && set.classes.length === 0;
+}
+
+function rangeHitsClass([low, high]: [number, number], name: ClassName): boolean {
+  if (high - low > 512) {
+    return true;
+  }
+  for (let code = low; code <= high; code++) {
+    if (CLASS_TESTS[name].test(String.fromCharCode(code))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function setsOverlap(a: CharSet, b: CharSet): boolean {
+  if (isEmptySet(a) || isEmptySet(b)) {
+    return false;
+  }
+  if (a.any || b.any) {
+    return true;
+  }
+  // \d is part of \w; \s shares nothing with either
+  if (a.classes.some((x) => b.classes.some((y) => x === y || (x !== 's' && y !== 's')))) {
+    return true;
+  }
+  if (a.ranges.some((x) => b.ranges.some((y) => x[0] <= y[1] && y[0] <= x[1]))) {
+    return true;
+  }
+  return (
+    a.ranges.some((range) => b.classes.some((name) => rangeHitsClass(range, name))) ||
+    b.ranges.some((range) => a.classes.some((name) => rangeHitsClass(range, name)))
+  );
+}
+
+/**
+ * Add the other-case ASCII letters of a range for case-insensitive patterns
+ */
+function withCaseVariants(low: number, high: number): [number, number][] {
+  const ranges: [number, number][] = [[low, high]];
+  const lower: [number, number] = [Math.max(low, 0x61), Math.min(high, 0x7a)];
+  const upper: [number, number] = [Math.max(low, 0x41), Math.min(high, 0x5a)];
+  if (lower[0] <= lower[1]) ranges.push([lower[0] - 0x20, lower[1] - 0x20]);
+  if (upper[0] <= upper[1]) ranges.push([upper[0] + 0x20, upper[1] + 0x20]);
+  return ranges;
+}
+
+function atom(set: CharSet): Term {
+  return { set, first: set, nullable: false, singleChar: true, unbounded: false, repeated: false, maxRepeat: 1, repeatsChar: false };
+}
+
+function zeroWidth(): Term {
+  return {
+    set: emptySet(),
+    first: emptySet(),
+    nullable: true,
+    singleChar: false,
+    unbounded: false,
+    repeated: false,
+    maxRepeat: 1,
+    repeatsChar: false,
+  };
+}
+
+function firstOfSequence(terms: Term[]): CharSet {
+  let first = emptySet();
+  for (const term of terms) {
+    first = union(first, term.first);
+    if (!term.nullable) {
+      break;
+    }
+  }
+  return first;
+}
+
+class PatternParser {
+  private pos = 0;
+
+  constructor(private pattern: string, private ignoreCase: boolean) {}
+
+  parse(): Term[][] {
+    return this.parseAlternatives();
+  }
+
+  private peek(offset = 0): string {
+    return this.pattern[this.pos + offset] ?? '';
+  }
+
+  private literal(code: number): CharSet {
+    return { ...emptySet(), ranges: this.ignoreCase ? withCaseVariants(code, code) : [[code, code]] };
+  }
+
+  private parseAlternatives(): Term[][] {
+    const alternatives: Term[][] = [[]];
+    while (this.pos < this.pattern.length && this.peek() !== ')') {
+      if (this.peek() === '|') {
+        this.pos++;
+        alternatives.push([]);
+        continue;
+      }
+      alternatives[alternatives.length - 1].push(this.parseQuantifier(this.parseTerm()));
+    }
+    return alternatives;
+  }
+
+  private parseTerm(): Term {
+    const char = this.pattern[this.pos++];
+    switch (char) {
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return atom(this.parseClass());
+      case '.':
+        return atom(anySet());
+      case '^':
+      case '$':
+        return zeroWidth();
+      case '\\':
+        return this.parseEscape();
+      default:
+        return atom(this.literal(char.charCodeAt(0)));
+    }
+  }
+
+  private parseGroup(): Term {
+    let lookaround = false;
+    if (this.peek() === '?') {
+      const kind = this.peek(1);
+      if (kind === '=' || kind === '!') {
+        lookaround = true;
+        this.pos += 2;
+      } else if (kind === '<' && (this.peek(2) === '=' || this.peek(2) === '!')) {
+        lookaround = true;
+        this.pos += 3;
+      } else if (kind === '<') {
+        this.pos = this.pattern.indexOf('>', this.pos) + 1;
+      } else {
+        this.pos += 2;
+      }
+    }
+
+    const alternatives = this.parseAlternatives();
+    this.pos++; // Closing parenthesis
+
+    if (lookaround) {
+      return zeroWidth();
+    }
+
+    const set = alternatives.reduce((acc, alt) => alt.reduce((inner, term) => union(inner, term.set), acc), emptySet());
+    return {
+      set,
+      first: alternatives.reduce((acc, alt) => union(acc, firstOfSequence(alt)), emptySet()),
+      nullable: alternatives.some((alt) => alt.every((term) => term.nullable)),
+      singleChar: alternatives.every((alt) => alt.length === 1 && alt[0].singleChar),
+      unbounded: false,
+      repeated: false,
+      maxRepeat: 1,
+      repeatsChar: false,
+      alternatives,
+    };
+  }
+
+  private parseClass(): CharSet {
+    let set = emptySet();
+    const negated = this.peek() === '^';
+    if (negated) {
+      this.pos++;
+    }
+
+    while (this.pos < this.pattern.length && this.peek() !== ']') {
+      const low = this.parseClassChar();
+      if (typeof low === 'object') {
+        set = union(set, low);
+        continue;
+      }
+      if (this.peek() === '-' && this.peek(1) !== ']' && this.peek(1) !== '') {
+        this.pos++;
+        const high = this.parseClassChar();
+        if (typeof high === 'number' && high >= low) {
+          set = union(set, { ...emptySet(), ranges: this.ignoreCase ? withCaseVariants(low, high) : [[low, high]] });
+          continue;
+        }
+        set = union(set, this.literal(0x2d));
+        if (typeof high === 'object') {
+          set = union(set, high);
+        }
+      }
+      set = union(set, this.literal(low));
+    }
+    this.pos++; // Closing bracket
+
+    // A negated class matches almost everything, so treat it as a wildcard
+    return negated ? anySet() : set;
+  }
+
+  /**
+   * Read one class member: a code unit, or a character set for shorthand escapes
+   */
+  private parseClassChar(): number | CharSet {
+    const char = this.pattern[this.pos++];
+    if (char !== '\\') {
+      return char.charCodeAt(0);
+    }
+    const escaped = this.pattern[this.pos++] ?? '';
+    if (escaped === 'b') {
+      return 0x08;
+    }
+    const shorthand = this.shorthand(escaped);
+    return shorthand ?? this.escapedCode(escaped);
+  }
+
+  private shorthand(escaped: string): CharSet | null {
+    switch (escaped) {
+      case 'd':
+      case 'w':
+      case 's':
+        return { ...emptySet(), classes: [escaped] };
+      case 'D':
+      case 'W':
+      case 'S':
+        return anySet();
+      case 'p':
+      case 'P':
+        if (this.peek() === '{') {
+          this.pos = this.pattern.indexOf('}', this.pos) + 1;
+        }
+        return anySet();
+      default:
+        return null;
+    }
+  }
+
+  private escapedCode(escaped: string): number {
+    const hex = (length: number): number => {
+      const digits = this.pattern.slice(this.pos, this.pos + length);
+      this.pos += length;
+      return parseInt(digits, 16) || 0;
+    };
+    switch (escaped) {
+      case 'n': return 0x0a;
+      case 'r': return 0x0d;
+      case 't': return 0x09;
+      case 'f': return 0x0c;
+      case 'v': return 0x0b;
+      case '0': return 0x00;
+      case 'x': return hex(2);
+      case 'u': return hex(4);
+      case 'c': this.pos++; return 0x01;
+      default: return escaped.charCodeAt(0);
+    }
+  }
+
+  private parseEscape(): Term {
+    const escaped = this.pattern[this.pos++] ?? '';
+    if (escaped === 'b' || escaped === 'B') {
+      return zeroWidth();
+    }
+    if (/[1-9]/.test(escaped) || escaped === 'k') {
+      // Back-references repeat earlier text, which can be anything
+      if (escaped === 'k' && this.peek() === '<') {
+        this.pos = this.pattern.indexOf('>', this.pos) + 1;
+      }
+      return { ...atom(anySet()), singleChar: false, nullable: true };
+    }
+    const shorthand = this.shorthand(escaped);
+    return atom(shorthand ?? this.literal(this.escapedCode(escaped)));
+  }
+
+  private parseQuantifier(term: Term): Term {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+
+    if (char === '*' || char === '+' || char === '?') {
+      this.pos++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.pos));
+      if (!match) {
+        return term;
+      }
+      this.pos += match[0].length;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+    } else {
+      return term;
+    }
+
+    if (this.peek() === '?') {
+      this.pos++; // Lazy quantifiers backtrack just as much
+    }
+
+    return {
+      ...term,
+      nullable: term.nullable || min === 0,
+      singleChar: term.singleChar && min === 1 && max === 1,
+      unbounded: max === Infinity,
+      repeated: max > 1,
+      maxRepeat: max,
+      repeatsChar: term.singleChar && max > 1,
+    };
+  }
+}
+
+/**
+ * Inline plain (non-repeated, single alternative) groups into the surrounding sequence
+ */
+function flatten(terms: Term[]): Term[] {
+  return terms.flatMap((term) =>
+    term.alternatives?.length === 1 && !term.repeated && !term.nullable ? flatten(term.alternatives[0]) : [term]
+  );
+}
+
+function containsUnbounded(term: Term): boolean {
+  return term.unbounded || !!term.alternatives?.some((alt) => alt.some(containsUnbounded));
+}
+
+class Analyzer {
+  public errors = new Set<string>();
+  public warnings = new Set<string>();
+
+  sequence(terms: Term[]): void {
+    const flat = flatten(terms);
+    flat.forEach((term, index) => {
+      if (term.alternatives) {
+        term.alternatives.forEach((alt) => this.sequence(alt));
+        if (term.maxRepeat >= MAX_AMBIGUOUS_REPEAT) {
+          this.repeatedGroup(term);
+        }
+      }
+      if (term.unbounded && term.repeatsChar) {
+        this.adjacent(flat, index);
+      }
+    });
+  }
+
+  /**
+   * A repeated group is ambiguous when an inner quantified part can also consume
+   * what follows it, including the start of the next repetition
+   */
+  private repeatedGroup(group: Term): void {
+    for (const alt of group.alternatives ?? []) {
+      const body = flatten(alt);
+      body.forEach((inner, index) => {
+        if (!containsUnbounded(inner)) {
+          return;
+        }
+        let following = emptySet();
+        for (let step = 1; step <= body.length; step++) {
+          const next = body[(index + step) % body.length];
+          following = union(following, next.first);
+          if (!next.nullable) {
+            break;
+          }
+        }
+        if (!setsOverlap(inner.set, following)) {
+          return;
+        }
+        this.errors.add(group.unbounded
+          ? 'Nested quantifiers: a repeated group contains a quantifier that can match the same text in many ways, e.g. (a+)+'
+          : 'Nested quantifiers: a group repeated a fixed number of times contains a quantifier that can match the same text in many ways, e.g. (.*a){12}');
+      });
+    }
+
+    // Branches starting alike can split the same text in many ways, like `ab` read as `a` then `b` in (a|b|ab)*
+    const alternatives = group.unbounded ? group.alternatives ?? [] : [];
+    for (let i = 0; i < alternatives.length; i++) {
+      for (let j = i + 1; j < alternatives.length; j++) {
+        if (!setsOverlap(firstOfSequence(alternatives[i]), firstOfSequence(alternatives[j]))) {
+          continue;
+        }
+        const singleChars = [alternatives[i], alternatives[j]].every((alt) => alt.length === 1 && alt[0].singleChar);
+        if (singleChars) {
+          this.errors.add('Overlapping alternatives in a repeated group: more than one branch matches the same character, e.g. (\\d|\\w)+');
+        } else {
+          this.errors.add('Overlapping alternatives in a repeated group: more than one branch starts with the same characters, e.g. (a|b|ab)*');
+        }
+      }
+    }
+  }
+
+  /**
+   * Two character quantifiers in a row over the same characters can split the text in many ways
+   */
+  private adjacent(terms: Term[], index: number): void {
+    const term = terms[index];
+    for (let next = index + 1; next < terms.length; next++) {
+      const other = terms[next];
+      if (other.unbounded && other.repeatsChar && setsOverlap(term.set, other.set)) {
+        this.warnings.add('Adjacent quantifiers over the same characters, e.g. \\d+\\d+, can be slow on long text');
+        return;
+      }
+      if (!other.nullable) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Check a regex rule pattern for catastrophic backtracking
+ * Invalid patterns are reported by `validateRegex`, not here
+ */
+export function analyzeRegex(pattern: string, caseSensitive: boolean = true): RegexSafetyReport {
+  try {
+    new RegExp(pattern);
+  } catch {
+    return { errors: [], warnings: [] };
+  }
+
+  const analyzer = new Analyzer();
+  try {
+    new PatternParser(pattern, !caseSensitive).parse().forEach((alt) => analyzer.sequence(alt));
+  } catch {
+    // The parser only approximates the regex grammar; never block a valid pattern on its account
+    return { errors: [], warnings: [] };
+  }
+
+  return { errors: Array.from(analyzer.errors), warnings: Array.from(analyzer.warnings) };
+}
@@ -0,0 +1,74 @@
+import type { Rule, RuleException } from '../../types';
+import { CompiledRuleSet, redact } from './redactor';
+import { RedactionVault } from './redaction-vault';
+
+export interface ExampleResult {
+  example: string;
+  expected: 'match' | 'noMatch';
+  passed: boolean;
+  matchedBy: string[];           // IDs of the rules that redacted part of the example
+}
+
+export interface RuleTestReport {
+  ruleId: string;
+  results: ExampleResult[];
+  passed: boolean;               // Every example passed
+  skipped: boolean;              // The rule is disabled, so its examples were not run
+}
+
+/**
+ * Split examples typed one per line, dropping blank lines
+ */
+export function parseExamples(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+export function hasExamples(rule: Pick<Rule, 'shouldMatch' | 'shouldNotMatch'>): boolean {
+  return (rule.shouldMatch?.length ?? 0) + (rule.shouldNotMatch?.length ?? 0) > 0;
+}
+
+/**
+ * Redact each of a rule's examples and compare with what it expects
+ * An example matches when the rule redacts part of it, or reports it for report-only detectors.
+ * With the whole rule set, a higher-precedence rule or an exception can make a match fail.
+ *
+ * @param rule - Rule whose examples are checked
+ * @param rules - Rules to redact with, preferably an already compiled set; defaults to the rule alone
+ */
+export function checkExamples(rule: Rule, rules: Rule[] | CompiledRuleSet = [{ ...rule, enabled: true }]): ExampleResult[] {
+  const run = (example: string, expected: ExampleResult['expected']): ExampleResult => {
+    // A fresh vault keeps the examples from affecting each other and the session
+    const result = redact(example, rules, new RedactionVault());
+    const matched = result.appliedRules.includes(rule.id)
+      || !!result.detections?.some((detection) => detection.ruleId === rule.id);
+    return {
+      example,
+      expected,
+      passed: matched === (expected === 'match'),
+      matchedBy: result.appliedRules,
+    };
+  };
+
+  return [
+    ...(rule.shouldMatch ?? []).map((example) => run(example, 'match')),
+    ...(rule.shouldNotMatch ?? []).map((example) => run(example, 'noMatch')),
+  ];
+}
+
+/**
+ * Run the examples of every rule against the whole enabled rule set
+ * @param rules - Rules with their dictionary terms attached
+ * @param exceptions - Global exceptions, applied as on the sites
+ * @returns One report per rule that has examples, in rule order
+ */
+export function runRuleTests(rules: Rule[], exceptions: RuleException[] = []): RuleTestReport[] {
+  const ruleSet = new CompiledRuleSet(rules, { exceptions });
+
+  return rules.filter(hasExamples).map((rule) => {
+    if (!rule.enabled) {
+      return { ruleId: rule.id, results: [], passed: true, skipped: true };
+    }
+    const results = checkExamples(rule, ruleSet);
+    return { ruleId: rule.id, results, passed: results.every((result) => result.passed), skipped: false };
+  });
+}
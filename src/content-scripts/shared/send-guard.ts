@@ -0,0 +1,60 @@
+import { log } from './utils';
+
+interface SendGuardConfig {
+  element: HTMLElement;                 // Message box whose text is sent
+  submitButtonSelector: string;         // Button clicked to send the message once it is redacted
+  redactForSend: () => boolean;         // Redact the whole message in place, returning whether it changed
+}
+
+/**
+ * Whether a key press sends the message: Enter, alone or with Ctrl or Cmd, outside an IME composition
+ */
+export function isSendKey(e: KeyboardEvent): boolean {
+  return e.key === 'Enter' && !e.shiftKey && !e.altKey && !e.isComposing;
+}
+
+/**
+ * Redact the message before Enter or a form submit sends it
+ * Live redaction leaves the value or name at the caret until the word is done, so the last thing typed
+ * would otherwise go out as it is. Both listeners run in the capture phase on the document, ahead of the
+ * page's own handlers; when the text changes, the send is held and made again with the submit button.
+ */
+export function guardSend(config: SendGuardConfig): void {
+  const { element, submitButtonSelector, redactForSend } = config;
+
+  const resend = (e: Event, send: () => void) => {
+    if (!redactForSend()) {
+      return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.stopImmediatePropagation();
+
+    setTimeout(() => {
+      log('Resending after redaction');
+      send();
+    }, 100);
+  };
+
+  document.addEventListener(
+    'keydown',
+    (e: KeyboardEvent) => {
+      if (isSendKey(e) && element.contains(e.target as Node)) {
+        resend(e, () => document.querySelector<HTMLButtonElement>(submitButtonSelector)?.click());
+      }
+    },
+    true
+  );
+
+  document.addEventListener(
+    'submit',
+    (e: SubmitEvent) => {
+      const form = e.target as HTMLFormElement;
+      if (form.contains(element)) {
+        resend(e, () => form.requestSubmit());
+      }
+    },
+    true
+  );
+}
@@ -0,0 +1,406 @@
+import type { DetectorOptions } from '../../types';
+import type { DetectorMatch } from './detectors';
+
+export type StructuredFormat = 'json' | 'yaml' | 'env' | 'ini' | 'csv';
+
+// Key names whose values are secret, matched against the last words of a key without case or separators
+export const DEFAULT_SENSITIVE_KEYS = [
+  'password',
+  'passwd',
+  'pwd',
+  'secret',
+  'token',
+  'dsn',
+  'authorization',
+  'apikey',
+  'privatekey',
+  'accesskey',
+  'credential',
+  'connectionstring',
+  'databaseurl',
+];
+
+// Share of content lines that must fit a line-based format before it is treated as one
+const MIN_LINE_SHARE = 0.6;
+
+// A single `key: value` line is as likely to be prose as YAML
+const MIN_YAML_KEYS = 2;
+
+const JSON_TOKEN = /"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null|[{}[\]:,]/g;
+
+type KeyTest = (key: string) => boolean;
+
+function canonicalKey(key: string): string {
+  return key.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// Words that may follow a secret key without changing what its value is, as in SECRET_KEY or password_confirm
+const KEY_SUFFIXES = new Set(['key', 'value', 'confirm', 'confirmation', 'raw', 'encoded']);
+
+/**
+ * Split a key into lowercase words at separators and camelCase humps: `apiKey` and `API_KEY` are `api`, `key`
+ */
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Test keys against a list of secret names, by whole words rather than substrings
+ * A name matches the last words of a key, before any of `KEY_SUFFIXES`, so `token` covers GITHUB_TOKEN,
+ * refreshToken and tokens but not tokenizer or token_type, and `password` leaves passwordHint alone.
+ */
+function keyTest(keys: string[]): KeyTest {
+  const names = new Set(keys.map(canonicalKey).filter(Boolean));
+  return (key) => {
+    const words = keyWords(key);
+    let end = words.length;
+    while (end > 0 && KEY_SUFFIXES.has(words[end - 1])) {
+      end--;
+    }
+
+    for (let last = end; last <= words.length; last++) {
+      for (let first = last - 1; first >= 0; first--) {
+        const name = words.slice(first, last).join('');
+        if (names.has(name) || (name.endsWith('s') && names.has(name.slice(0, -1)))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Span of a scalar value, without its quotes
+ * Unquoted values get `wrap` so the token stays a string, as `[` would start a YAML list.
+ */
+function scalarSpan(text: string, start: number, end: number, wrap?: string): DetectorMatch | null {
+  let raw = text.slice(start, end);
+  const trimmedStart = raw.length - raw.trimStart().length;
+  raw = raw.trim();
+  start += trimmedStart;
+  end = start + raw.length;
+
+  // A quoted value ends at its closing quote, leaving a trailing comma or the rest of a cut-off line
+  if (raw[0] === '"' || raw[0] === "'") {
+    const close = raw.indexOf(raw[0], 1);
+    return close > 1 ? { start: start + 1, end: start + close } : null;
+  }
+  if (!raw || /^[[{&*|>]/.test(raw)) {
+    return null;
+  }
+  return wrap ? { start, end, wrap } : { start, end };
+}
+
+/**
+ * Values of sensitive keys in a JSON document, and every scalar in arrays and objects under one
+ */
+function findJsonValues(text: string, isSensitive: KeyTest): DetectorMatch[] {
+  const tokens = Array.from(text.matchAll(JSON_TOKEN), (match) => ({ value: match[0], start: match.index }));
+  const containers: boolean[] = [];  // Whether each open container sits under a sensitive key
+  const matches: DetectorMatch[] = [];
+  let key: string | null = null;
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1]?.value;
+    const previous = tokens[i - 1]?.value;
+    const inherited = containers[containers.length - 1] ?? false;
+    const owner = previous === ':' ? inherited || (key !== null && isSensitive(key)) : inherited;
+
+    if (token.value === '{' || token.value === '[') {
+      containers.push(owner);
+    } else if (token.value === '}' || token.value === ']') {
+      containers.pop();
+    } else if (token.value.startsWith('"') && next === ':') {
+      key = JSON.parse(token.value) as string;
+    } else if (owner && token.value.startsWith('"') && token.value.length > 2) {
+      matches.push({ start: token.start + 1, end: token.start + token.value.length - 1 });
+    } else if (owner && /^-?\d/.test(token.value)) {
+      matches.push({ start: token.start, end: token.start + token.value.length, wrap: '"' });
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Whether a text is JSON cut short, like a paste that stops mid-object: nothing but JSON tokens,
+ * perhaps ending in an unclosed string
+ */
+function isTruncatedJson(text: string): boolean {
+  const token = new RegExp(String.raw`\s*(?:${JSON_TOKEN.source})`, 'y');
+  let cursor = 0;
+  while (token.exec(text)) {
+    cursor = token.lastIndex;
+  }
+  return /^\s*(?:"(?:[^"\\]|\\.)*)?$/.test(text.slice(cursor));
+}
+
+interface Line {
+  text: string;
+  start: number;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line.replace(/\r$/, ''), start });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+function isContentLine(line: string): boolean {
+  return line.trim() !== '' && !/^\s*[#;]/.test(line);
+}
+
+const ASSIGNMENT = /^(\s*(?:export\s+)?)([\w.-]+(?:[ \t]+[\w.-]+)*)([ \t]*=[ \t]*)(.*)$/;
+const SECTION = /^\s*\[[^\]]+\]\s*$/;
+
+/**
+ * Values of sensitive keys in .env and INI files
+ */
+function findAssignmentValues(text: string, isSensitive: KeyTest): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  for (const line of splitLines(text)) {
+    const match = ASSIGNMENT.exec(line.text);
+    if (!match || !isSensitive(match[2])) {
+      continue;
+    }
+    // A comment after an unquoted value is not part of it
+    const value = /^["']/.test(match[4]) ? match[4] : match[4].replace(/\s+[#;].*$/, '');
+    const start = line.start + match[1].length + match[2].length + match[3].length;
+    const span = scalarSpan(text, start, start + value.length);
+    if (span) {
+      matches.push(span);
+    }
+  }
+  return matches;
+}
+
+const YAML_KEY = /^(\s*)(?:-\s+)?("[^"]+"|'[^']+'|[^\s:#'"-][^:#]*?|-[^\s:#][^:#]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const YAML_ITEM = /^(\s*)-[ \t]+(.*)$/;
+
+/**
+ * Whether a line is a YAML key written like one: quoted or without spaces, so "Note: call me" is not
+ */
+function isYamlKeyLine(line: string): boolean {
+  const key = YAML_KEY.exec(line)?.[2];
+  return key !== undefined && (/^["']/.test(key) || !/\s/.test(key));
+}
+
+/**
+ * Values of sensitive keys in a YAML document, including block scalars and nested mappings and lists
+ */
+function findYamlValues(text: string, isSensitive: KeyTest): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  const parents: { indent: number; sensitive: boolean }[] = [];
+  let block: { indent: number; sensitive: boolean; span?: DetectorMatch } | null = null;
+
+  const valueSpan = (line: Line, value: string) => {
+    const withoutComment = /^["']/.test(value) ? value : value.replace(/\s+#.*$/, '');
+    const start = line.start + line.text.length - value.length;
+    return scalarSpan(text, start, start + withoutComment.length, '"');
+  };
+
+  for (const line of splitLines(text)) {
+    const indent = line.text.length - line.text.trimStart().length;
+
+    // Lines of a `|` or `>` block are plain text until the indentation drops back; a secret block is one value
+    if (block && (line.text.trim() === '' || indent > block.indent)) {
+      if (block.sensitive && line.text.trim()) {
+        block.span ??= { start: line.start + indent, end: 0 };
+        block.span.end = line.start + line.text.trimEnd().length;
+      }
+      continue;
+    }
+    if (block?.span) {
+      matches.push(block.span);
+    }
+    block = null;
+    if (!isContentLine(line.text)) {
+      continue;
+    }
+
+    while (parents.length > 0 && indent <= parents[parents.length - 1].indent) {
+      parents.pop();
+    }
+    const inherited = parents[parents.length - 1]?.sensitive ?? false;
+
+    const keyMatch = YAML_KEY.exec(line.text);
+    if (keyMatch) {
+      const key = keyMatch[2].replace(/^["']|["']$/g, '');
+      const sensitive = inherited || isSensitive(key);
+      const value = keyMatch[3]?.trim() ? keyMatch[3] : '';
+      if (/^[|>][-+0-9]*\s*(?:#.*)?$/.test(value.trim())) {
+        block = { indent, sensitive };
+      } else if (!value) {
+        parents.push({ indent, sensitive });
+      } else if (sensitive) {
+        const span = valueSpan(line, value);
+        if (span) {
+          matches.push(span);
+        }
+      }
+      continue;
+    }
+
+    const itemMatch = YAML_ITEM.exec(line.text);
+    if (itemMatch && inherited) {
+      const span = valueSpan(line, itemMatch[2]);
+      if (span) {
+        matches.push(span);
+      }
+    }
+  }
+  if (block?.span) {
+    matches.push(block.span);
+  }
+
+  return matches;
+}
+
+interface CsvCell {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split CSV text into rows of cell spans, honoring quoted cells with doubled quotes and line breaks
+ */
+function parseCsv(text: string, delimiter: string): CsvCell[][] {
+  const rows: CsvCell[][] = [];
+  let row: CsvCell[] = [];
+  let i = 0;
+
+  while (i <= text.length) {
+    const start = i;
+    if (text[i] === '"') {
+      i++;
+      while (i < text.length && !(text[i] === '"' && text[i + 1] !== '"')) {
+        i += text[i] === '"' ? 2 : 1;
+      }
+      i++;
+    } else {
+      while (i < text.length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') {
+        i++;
+      }
+    }
+    row.push({ start, end: i });
+
+    if (text[i] === delimiter) {
+      i++;
+      continue;
+    }
+    rows.push(row);
+    row = [];
+    i += text.startsWith('\r\n', i) ? 2 : 1;
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.end > cell.start));
+}
+
+/**
+ * Pick the CSV delimiter that splits every row into the same number of cells, at least two rows of two
+ */
+function csvDelimiter(text: string): string | null {
+  for (const delimiter of [',', ';', '\t']) {
+    const counts = parseCsv(text, delimiter).map((row) => row.length);
+    if (counts.length >= 2 && counts[0] > 1 && counts.every((count) => count === counts[0])) {
+      return delimiter;
+    }
+  }
+  return null;
+}
+
+/**
+ * Every cell in columns whose header is sensitive or listed by name
+ */
+function findCsvValues(text: string, delimiter: string, isSensitive: KeyTest, columns: string[]): DetectorMatch[] {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  const listed = new Set(columns.map((column) => column.trim().toLowerCase()));
+  const redacted = header
+    .map((cell, index) => {
+      const name = text.slice(cell.start, cell.end).replace(/^"|"$/g, '').trim();
+      return isSensitive(name) || listed.has(name.toLowerCase()) ? index : -1;
+    })
+    .filter((index) => index >= 0);
+
+  return rows.flatMap((row) =>
+    redacted
+      .map((index) => row[index] && scalarSpan(text, row[index].start, row[index].end))
+      .filter((span): span is DetectorMatch => !!span)
+  );
+}
+
+/**
+ * Recognize a whole text as one of the supported structured formats
+ * Mixed prose and config is not recognized; paste handlers redact each paste on its own, so a pasted file is.
+ */
+export function detectFormat(text: string): StructuredFormat | null {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON unless it was cut short; YAML flow style and other formats are tried below
+      if (isTruncatedJson(trimmed)) {
+        return 'json';
+      }
+    }
+  }
+
+  const lines = splitLines(text).map((line) => line.text).filter(isContentLine);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  if (!lines.some((line) => ASSIGNMENT.test(line) || YAML_KEY.test(line)) && csvDelimiter(text)) {
+    return 'csv';
+  }
+
+  const assignments = lines.filter((line) => ASSIGNMENT.test(line) || SECTION.test(line)).length;
+  const yamlLines = lines.filter((line) => YAML_KEY.test(line) || YAML_ITEM.test(line)).length;
+  if (assignments >= yamlLines && assignments / lines.length >= MIN_LINE_SHARE) {
+    return lines.some((line) => SECTION.test(line)) ? 'ini' : 'env';
+  }
+  // Prose with a colon is not YAML: it takes several keys, or a key with nested lines under it
+  const yamlKeys = lines.filter(isYamlKeyLine).length;
+  const nested = lines.some((line, i) => isYamlKeyLine(line) && /:\s*$/.test(line) && /^\s/.test(lines[i + 1] ?? ''));
+  if (yamlLines / lines.length >= MIN_LINE_SHARE && (yamlKeys >= MIN_YAML_KEYS || nested)) {
+    return 'yaml';
+  }
+  return csvDelimiter(text) ? 'csv' : null;
+}
+
+/**
+ * Find secret values in a JSON, YAML, .env, INI or CSV text
+ * Only values are matched, so keys, quotes, indentation and delimiters stay as they are.
+ */
+export function findStructuredSecrets(text: string, options: DetectorOptions = {}): DetectorMatch[] {
+  const format = detectFormat(text);
+  const isSensitive = keyTest(options.keys ?? DEFAULT_SENSITIVE_KEYS);
+
+  switch (format) {
+    case 'json':
+      return findJsonValues(text, isSensitive);
+    case 'yaml':
+      return findYamlValues(text, isSensitive);
+    case 'env':
+    case 'ini':
+      return findAssignmentValues(text, isSensitive);
+    case 'csv': {
+      const delimiter = csvDelimiter(text);
+      return delimiter ? findCsvValues(text, delimiter, isSensitive, options.columns ?? []) : [];
+    }
+    default:
+      return [];
+  }
+}
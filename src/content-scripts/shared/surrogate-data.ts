@@ -0,0 +1,42 @@
+/**
+ * Word lists for surrogate values, bundled so no lookup ever leaves the browser
+ * Phone numbers use the 555-0100 to 555-0199 range reserved for fiction, and emails use reserved example domains.
+ */
+
+export const FIRST_NAMES = [
+  'Alice', 'Amara', 'Andrea', 'Anton', 'Aria', 'Bianca', 'Bruno', 'Camila', 'Carlos', 'Chloe',
+  'Daniel', 'Dara', 'Elena', 'Elias', 'Emma', 'Felix', 'Fiona', 'Gabriel', 'Grace', 'Hana',
+  'Hugo', 'Ines', 'Isaac', 'Ivy', 'Jonas', 'Julia', 'Kai', 'Kiran', 'Lara', 'Leo',
+  'Lina', 'Lucas', 'Maya', 'Marco', 'Mila', 'Nadia', 'Nina', 'Noah', 'Olivia', 'Omar',
+  'Paula', 'Quinn', 'Rafael', 'Rosa', 'Ruben', 'Sara', 'Simon', 'Sofia', 'Tariq', 'Tessa',
+  'Theo', 'Uma', 'Victor', 'Vera', 'Wes', 'Xavier', 'Yara', 'Yusuf', 'Zara', 'Zoe',
+];
+
+export const LAST_NAMES = [
+  'Abbott', 'Alvarez', 'Bauer', 'Bennett', 'Brooks', 'Castillo', 'Chen', 'Coleman', 'Dalton', 'Diaz',
+  'Ellis', 'Engel', 'Fischer', 'Fleming', 'Foster', 'Garcia', 'Grant', 'Hale', 'Hansen', 'Hayes',
+  'Ibarra', 'Jensen', 'Keller', 'Kim', 'Larsen', 'Lopez', 'Marsh', 'Meyer', 'Moreau', 'Nakamura',
+  'Novak', 'Olsen', 'Ortiz', 'Patel', 'Perez', 'Quinlan', 'Reyes', 'Rossi', 'Santos', 'Sato',
+  'Schmidt', 'Silva', 'Sorensen', 'Stone', 'Tan', 'Torres', 'Vargas', 'Vidal', 'Wagner', 'Walsh',
+  'Weber', 'Wells', 'Young', 'Zimmer', 'Ahmed', 'Barros', 'Costa', 'Dumont', 'Kowalski', 'Lind',
+];
+
+export const COMPANY_WORDS = [
+  'Amberline', 'Bluecrest', 'Brightwater', 'Cedarpoint', 'Clearpath', 'Copperleaf', 'Crestview', 'Driftwood',
+  'Eastbrook', 'Evergreen', 'Fairhaven', 'Foxglove', 'Granite', 'Greenfield', 'Harborview', 'Highgate',
+  'Ironwood', 'Juniper', 'Kestrel', 'Lakeshore', 'Larkspur', 'Maplewood', 'Meridian', 'Northwind',
+  'Oakridge', 'Pinecone', 'Quarry', 'Redwood', 'Riverbend', 'Silverline', 'Stonebridge', 'Summit',
+  'Tidewater', 'Trailhead', 'Upland', 'Valleyforge', 'Westgate', 'Willowbrook', 'Yellowpine', 'Zephyr',
+];
+
+export const COMPANY_SUFFIXES = ['Labs', 'Group', 'Partners', 'Holdings', 'Systems', 'Industries', 'Consulting', 'Works'];
+
+export const CITIES = [
+  'Aberdeen', 'Alicante', 'Antwerp', 'Arlington', 'Bergen', 'Bilbao', 'Bologna', 'Boulder', 'Bremen', 'Brisbane',
+  'Calgary', 'Cardiff', 'Cork', 'Dayton', 'Dijon', 'Dunedin', 'Eugene', 'Galway', 'Ghent', 'Graz',
+  'Halifax', 'Hamilton', 'Innsbruck', 'Knoxville', 'Leeds', 'Leipzig', 'Lille', 'Linz', 'Lyon', 'Madison',
+  'Malmo', 'Montpellier', 'Nantes', 'Odense', 'Oulu', 'Porto', 'Reno', 'Salem', 'Salzburg', 'Savannah',
+  'Spokane', 'Tampere', 'Toledo', 'Tucson', 'Turku', 'Utrecht', 'Valencia', 'Verona', 'Windsor', 'York',
+];
+
+export const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
@@ -0,0 +1,98 @@
+import type { SurrogateCategory } from '../../types';
+import { CITIES, COMPANY_SUFFIXES, COMPANY_WORDS, EMAIL_DOMAINS, FIRST_NAMES, LAST_NAMES } from './surrogate-data';
+
+export interface SurrogateInfo {
+  category: SurrogateCategory;
+  label: string;                 // Human readable name shown in the options page
+  example: string;               // Sample surrogate
+}
+
+export const SURROGATE_CATEGORIES: SurrogateInfo[] = [
+  { category: 'name', label: 'Person name', example: 'Maya Lopez' },
+  { category: 'email', label: 'Email address', example: 'maya.lopez@example.com' },
+  { category: 'company', label: 'Company', example: 'Bluecrest Labs' },
+  { category: 'city', label: 'City', example: 'Utrecht' },
+  { category: 'phone', label: 'Phone number', example: '+1 (415) 555-0142' },
+];
+
+// Prime step between picks, so every combination is used once before any repeats
+const STRIDE = 7919;
+
+/**
+ * Index of the nth value's pick among `size` combinations, shuffled by the session seed
+ */
+function pick(n: number, seed: number, size: number): number {
+  return (seed + (n - 1) * STRIDE) % size;
+}
+
+function fakeName(index: number): [string, string] {
+  return [FIRST_NAMES[index % FIRST_NAMES.length], LAST_NAMES[Math.floor(index / FIRST_NAMES.length)]];
+}
+
+/**
+ * Replace the last seven digits with a number from the range reserved for fiction, keeping the layout
+ */
+function fakePhone(value: string, index: number): string | null {
+  const digitCount = value.replace(/\D/g, '').length;
+  if (digitCount < 7) {
+    return null;
+  }
+  const fake = `55501${String(index).padStart(2, '0')}`;
+  let seen = 0;
+  return value.replace(/\d/g, (digit) => {
+    seen++;
+    const fromEnd = digitCount - seen;
+    return fromEnd < fake.length ? fake[fake.length - 1 - fromEnd] : digit;
+  });
+}
+
+/**
+ * Fake value for the nth distinct original of a rule
+ * @param seed - Session seed, so the same original gets different surrogates in different sessions
+ * @returns The surrogate, or null when the value can't be replaced in this category
+ */
+export function surrogateFor(category: SurrogateCategory, value: string, n: number, seed: number): string | null {
+  const nameCount = FIRST_NAMES.length * LAST_NAMES.length;
+  switch (category) {
+    case 'name': {
+      // A lone first or last name is replaced by a single name
+      if (!/\s/.test(value.trim())) {
+        return FIRST_NAMES[pick(n, seed, FIRST_NAMES.length)];
+      }
+      return fakeName(pick(n, seed, nameCount)).join(' ');
+    }
+    case 'email': {
+      const index = pick(n, seed, nameCount);
+      const [first, last] = fakeName(index);
+      return `${first}.${last}@${EMAIL_DOMAINS[index % EMAIL_DOMAINS.length]}`.toLowerCase();
+    }
+    case 'company': {
+      const index = pick(n, seed, COMPANY_WORDS.length * COMPANY_SUFFIXES.length);
+      return `${COMPANY_WORDS[index % COMPANY_WORDS.length]} ${COMPANY_SUFFIXES[Math.floor(index / COMPANY_WORDS.length)]}`;
+    }
+    case 'city':
+      return CITIES[pick(n, seed, CITIES.length)];
+    case 'phone':
+      return fakePhone(value, pick(n, seed, 100));
+  }
+}
+
+/**
+ * Parts of a surrogate the model may use on their own, paired with the matching part of the original
+ * e.g. "Maya" → "John" and "Lopez" → "Smith" for "John Smith" replaced by "Maya Lopez"
+ */
+export function surrogateAliases(category: SurrogateCategory, value: string, surrogate: string): [string, string][] {
+  const words = value.trim().split(/\s+/);
+  const fakeWords = surrogate.split(' ');
+
+  switch (category) {
+    case 'name':
+      return words.length > 1 && fakeWords.length > 1
+        ? [[fakeWords[0], words[0]], [fakeWords[fakeWords.length - 1], words[words.length - 1]]]
+        : [];
+    case 'company':
+      return [[fakeWords[0], words[0]]];
+    default:
+      return [];
+  }
+}
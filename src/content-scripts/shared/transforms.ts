@@ -0,0 +1,190 @@
+import type { RuleTransform, TransformKind } from '../../types';
+import { shiftDate } from './dates';
+import { scaleAmount } from './amounts';
+import { surrogateFor } from './surrogates';
+
+export const MASK_CHAR = '•';
+export const DEFAULT_KEEP_LAST = 4;
+
+// Masked output already in the text, protected from being redacted again
+export const MASKED_SPAN = /•+[^\s•]*/gu;
+
+// Hidden per-session values behind the reversible transforms
+export interface TransformKeys {
+  dateOffsetDays: number;        // Days every date is moved by
+  amountFactor: number;          // Factor every amount is multiplied by
+  surrogateSeed: number;         // Shuffles which fake values are handed out
+}
+
+export interface TransformInfo {
+  kind: TransformKind;
+  label: string;                 // Human readable name shown in the options page
+  description: string;           // What the transform keeps of the value
+}
+
+export const TRANSFORMS: TransformInfo[] = [
+  {
+    kind: 'keepLast',
+    label: 'Keep last characters',
+    description: 'Show only the last few characters, e.g. ••••4242',
+  },
+  {
+    kind: 'keepDomain',
+    label: 'Keep domain',
+    description: 'Show only the domain of an email address or URL, e.g. •••@acme.com',
+  },
+  {
+    kind: 'initials',
+    label: 'Keep initials',
+    description: 'Show the first letter of each word, e.g. J.S.',
+  },
+  {
+    kind: 'keepLength',
+    label: 'Keep length',
+    description: 'Replace every character with •, keeping spaces',
+  },
+  {
+    kind: 'dateShift',
+    label: 'Shift dates',
+    description: 'Move every date by the same hidden number of days, so intervals between dates stay intact',
+  },
+  {
+    kind: 'amountScale',
+    label: 'Scale amounts',
+    description: 'Multiply every currency amount by the same hidden factor, so ratios and sums stay intact',
+  },
+  {
+    kind: 'surrogate',
+    label: 'Realistic fake value',
+    description: 'Replace each value with a made-up name, email, company, city or phone number, the same one every time it appears',
+  },
+  {
+    kind: 'pseudonym',
+    label: 'Stable pseudonym',
+    description: 'Add a keyed hash of the value to the placeholder, e.g. [CLIENT_7f3a9c02d1], the same in every conversation',
+  },
+];
+
+/**
+ * Look up a transform by kind
+ */
+export function getTransform(kind: string): TransformInfo | undefined {
+  return TRANSFORMS.find((transform) => transform.kind === kind);
+}
+
+/**
+ * Check whether a transform loses information, so its output can never be restored
+ */
+export function isOneWay(transform: RuleTransform): boolean {
+  switch (transform.kind) {
+    case 'keepLast':
+    case 'keepDomain':
+    case 'initials':
+    case 'keepLength':
+      return true;
+    case 'dateShift':
+    case 'amountScale':
+    case 'surrogate':
+    case 'pseudonym':
+      return false;
+  }
+}
+
+/**
+ * Pick the hidden offset and factor for a session
+ * The factor is above 1, so rounding a scaled amount never changes the amount it restores to
+ */
+export function createTransformKeys(): TransformKeys {
+  const [offset, factor, seed] = crypto.getRandomValues(new Uint32Array(3));
+  const days = 30 + (offset % 700);
+  return {
+    dateOffsetDays: factor % 2 === 0 ? days : -days,
+    amountFactor: 1.1 + (factor % 1900) / 1000,
+    surrogateSeed: seed,
+  };
+}
+
+function keepLast(value: string, keep: number): string | null {
+  const chars = Array.from(value);
+  // Keeping every character would reveal the whole value
+  if (keep <= 0 || chars.length <= keep) {
+    return null;
+  }
+  return MASK_CHAR.repeat(4) + chars.slice(-keep).join('');
+}
+
+function keepDomain(value: string): string | null {
+  const at = value.lastIndexOf('@');
+  if (at > 0) {
+    const domain = value.slice(at + 1);
+    return domain.includes('.') ? `${MASK_CHAR.repeat(3)}@${domain}` : null;
+  }
+
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(value)) {
+    return null;
+  }
+  try {
+    const url = new URL(value);
+    return url.host ? `${url.protocol}//${url.host}/${MASK_CHAR.repeat(3)}` : null;
+  } catch {
+    return null;
+  }
+}
+
+function initials(value: string): string | null {
+  const letters = value
+    .split(/[\s\-_.]+/u)
+    .map((word) => word.match(/\p{L}/u)?.[0])
+    .filter((letter): letter is string => letter !== undefined);
+  return letters.length > 0 ? letters.map((letter) => `${letter.toUpperCase()}.`).join('') : null;
+}
+
+/**
+ * Mask or shift a matched value
+ * @param keys - Session keys, required by the reversible transforms
+ * @param n - Per-value number, so each distinct value gets its own surrogate
+ * @returns The new value, or null when the transform does not apply and the placeholder is used instead
+ */
+export function applyTransform(transform: RuleTransform, value: string, keys?: TransformKeys, n = 1): string | null {
+  switch (transform.kind) {
+    case 'keepLast':
+      return keepLast(value, transform.keep ?? DEFAULT_KEEP_LAST);
+    case 'keepDomain':
+      return keepDomain(value);
+    case 'initials':
+      return initials(value);
+    case 'keepLength':
+      return value.replace(/\S/gu, MASK_CHAR);
+    case 'dateShift':
+      return keys ? shiftDate(value, keys.dateOffsetDays) : null;
+    case 'amountScale':
+      return keys ? scaleAmount(value, keys.amountFactor) : null;
+    case 'surrogate':
+      return keys ? surrogateFor(transform.category ?? 'name', value, n, keys.surrogateSeed) : null;
+    case 'pseudonym':
+      // Built from the rule's placeholder and the user's key by the redactor
+      return null;
+  }
+}
+
+/**
+ * Check whether values the response derives from transformed ones can be computed back
+ */
+export function isShift(transform: RuleTransform): boolean {
+  return transform.kind === 'dateShift' || transform.kind === 'amountScale';
+}
+
+/**
+ * Undo a reversible transform, for values the response derived from shifted ones
+ * @returns The restored value, or null for one-way transforms and values that don't parse
+ */
+export function reverseTransform(transform: RuleTransform, value: string, keys: TransformKeys): string | null {
+  switch (transform.kind) {
+    case 'dateShift':
+      return shiftDate(value, -keys.dateOffsetDays);
+    case 'amountScale':
+      return scaleAmount(value, 1 / keys.amountFactor);
+    default:
+      return null;
+  }
+}
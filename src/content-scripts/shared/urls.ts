@@ -0,0 +1,217 @@
+import type { DetectorOptions } from '../../types';
+import type { DetectorMatch } from './detectors';
+
+export interface UrlSpan {
+  start: number;                 // Start offset of the URL (inclusive)
+  end: number;                   // End offset of the URL (exclusive)
+}
+
+// Query and fragment parameters that carry credentials or signatures; a trailing * matches any suffix
+export const DEFAULT_SECRET_PARAMS = [
+  'sig',
+  'signature',
+  'token',
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'code',
+  'key',
+  'api_key',
+  'apikey',
+  'password',
+  'secret',
+  'X-Amz-*',
+  'X-Goog-*',
+];
+
+const URL_PATTERN = /\b(?:https?|ftps?|wss?):\/\/[^\s<>"'`]+/gi;
+
+interface Param {
+  start: number;                 // Start of the name
+  end: number;                   // End of the value
+  valueStart: number;            // Right after `=`, or `end` when there is no value
+  name: string;
+}
+
+/**
+ * Drop trailing punctuation that ends the sentence rather than the URL, and closing brackets opened outside it
+ */
+function trimUrl(url: string): string {
+  let end = url.length;
+  for (;;) {
+    const last = url[end - 1];
+    if (/[.,;:!?'"*]/.test(last)) {
+      end--;
+      continue;
+    }
+    const opener = { ')': '(', ']': '[', '}': '{' }[last];
+    const body = url.slice(0, end);
+    if (opener && body.split(opener).length <= body.split(last).length - 1) {
+      end--;
+      continue;
+    }
+    return url.slice(0, end);
+  }
+}
+
+/**
+ * Find the URLs in a text
+ */
+export function findUrls(text: string): UrlSpan[] {
+  return Array.from(text.matchAll(URL_PATTERN), (match) => ({
+    start: match.index,
+    end: match.index + trimUrl(match[0]).length,
+  }));
+}
+
+function wildcardTest(patterns: string[], toRegex: (pattern: string) => string): (value: string) => boolean {
+  const regexes = patterns
+    .map((pattern) => pattern.trim().toLowerCase())
+    .filter(Boolean)
+    .map((pattern) => new RegExp(toRegex(pattern)));
+  return (value) => regexes.some((regex) => regex.test(value.toLowerCase()));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match hosts against internal domains: `corp.example.com` also covers its subdomains, `*` stands for
+ * part of a label, e.g. `*.internal` or `tenant-*.example.com`
+ */
+function domainTest(domains: string[]): (host: string) => boolean {
+  return wildcardTest(domains, (domain) => {
+    const labels = domain.replace(/^\*?\./, '').split('*').map(escapeRegExp).join('[a-z0-9-]*');
+    return `(?:^|\\.)${labels}$`;
+  });
+}
+
+/**
+ * Match parameter names, compared without case; a trailing `*` matches any suffix, e.g. `X-Amz-*`
+ */
+function paramTest(params: string[]): (name: string) => boolean {
+  return wildcardTest(params, (param) =>
+    param.endsWith('*') ? `^${escapeRegExp(param.slice(0, -1))}` : `^${escapeRegExp(param)}$`
+  );
+}
+
+function decodeName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Split a query or fragment into its `name=value` parameters
+ * @param start - Offset of the first character after `?` or `#`
+ */
+function parseParams(text: string, start: number, end: number): Param[] {
+  const params: Param[] = [];
+  let cursor = start;
+  while (cursor <= end) {
+    const next = text.indexOf('&', cursor);
+    const paramEnd = next === -1 || next > end ? end : next;
+    const equals = text.indexOf('=', cursor);
+    const hasValue = equals !== -1 && equals < paramEnd;
+    if (paramEnd > cursor) {
+      params.push({
+        start: cursor,
+        end: paramEnd,
+        valueStart: hasValue ? equals + 1 : paramEnd,
+        name: decodeName(text.slice(cursor, hasValue ? equals : paramEnd)),
+      });
+    }
+    cursor = paramEnd + 1;
+  }
+  return params;
+}
+
+/**
+ * Spans that remove runs of parameters while keeping the rest of the query well formed
+ * @param separator - Offset of the `?` or `#` that starts the parameters
+ */
+function removedParamSpans(params: Param[], removed: boolean[], separator: number): DetectorMatch[] {
+  const spans: DetectorMatch[] = [];
+  for (let i = 0; i < params.length; i++) {
+    if (!removed[i]) {
+      continue;
+    }
+    let j = i;
+    while (j + 1 < params.length && removed[j + 1]) {
+      j++;
+    }
+
+    if (j + 1 < params.length) {
+      // A kept parameter follows: remove up to it, so it takes over the separator
+      spans.push({ start: params[i].start, end: params[j + 1].start, remove: true });
+    } else if (removed.slice(0, i).includes(false)) {
+      // The run ends the query: remove the `&` before it
+      spans.push({ start: params[i].start - 1, end: params[j].end, remove: true });
+    } else {
+      // Every parameter goes, and so does the `?` or `#`
+      spans.push({ start: separator, end: params[j].end, remove: true });
+    }
+    i = j;
+  }
+  return spans;
+}
+
+/**
+ * Find the sensitive parts of the URLs in a text: userinfo, internal hosts and secret parameters
+ * Matches are the parts alone, so the scheme, path and separators stay in place and other rules can
+ * still match path segments.
+ */
+export function findUrlParts(text: string, options: DetectorOptions = {}): DetectorMatch[] {
+  const isInternal = domainTest(options.domains ?? []);
+  const isSecret = paramTest(options.params ?? DEFAULT_SECRET_PARAMS);
+  const matches: DetectorMatch[] = [];
+
+  for (const url of findUrls(text)) {
+    const authorityStart = text.indexOf('://', url.start) + 3;
+    const authorityEnd = (() => {
+      const rest = text.slice(authorityStart, url.end).search(/[/?#]/);
+      return rest === -1 ? url.end : authorityStart + rest;
+    })();
+
+    // Credentials before `@` are always redacted
+    const at = text.lastIndexOf('@', authorityEnd - 1);
+    const hostStart = at >= authorityStart ? at + 1 : authorityStart;
+    if (hostStart > authorityStart + 1) {
+      matches.push({ start: authorityStart, end: hostStart - 1 });
+    }
+
+    const host = text.slice(hostStart, authorityEnd).replace(/:\d*$/, '');
+    if (host && !host.startsWith('[') && isInternal(host)) {
+      matches.push({ start: hostStart, end: hostStart + host.length });
+    }
+
+    // Query and fragment parameters, as OAuth puts tokens in the fragment
+    const hash = text.indexOf('#', authorityEnd);
+    const fragmentStart = hash === -1 || hash >= url.end ? url.end : hash;
+    const query = text.indexOf('?', authorityEnd);
+    const sections: [number, number][] = [];
+    if (query !== -1 && query < fragmentStart) {
+      sections.push([query, fragmentStart]);
+    }
+    if (fragmentStart < url.end && text.slice(fragmentStart, url.end).includes('=')) {
+      sections.push([fragmentStart, url.end]);
+    }
+
+    for (const [separator, end] of sections) {
+      const params = parseParams(text, separator + 1, end);
+      const secret = params.map((param) => isSecret(param.name));
+      if (options.stripParams) {
+        matches.push(...removedParamSpans(params, secret, separator));
+      } else {
+        params
+          .filter((param, i) => secret[i] && param.end > param.valueStart)
+          .forEach((param) => matches.push({ start: param.valueStart, end: param.end }));
+      }
+    }
+  }
+
+  return matches;
+}
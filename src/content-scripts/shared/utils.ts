@@ -1,4 +1,12 @@
-import type { Rule } from '../../types';
+import type { Rule, RuleException } from '../../types';
+import { isDictionaryKey } from '../../lib/dictionaryStorage';
+import { decodePseudonymKey } from '../../lib/pseudonymKey';
+import { CompiledRuleSet } from './redactor';
+import { sessionVault } from './redaction-vault';
+import { showDetectionNotice } from './detection-notice';
+
+// Longest a single regex rule may take to match the composer text before it is disabled
+const RULE_BUDGET_MS = 100;
 
 /**
  * Wait for an element to appear in the DOM
@@ -72,18 +80,71 @@ export async function getRulesFromStorage(): Promise<Rule[]> {
   });
 }
 
+/**
+ * Get the global exceptions from storage
+ * @returns Promise with array of exceptions
+ */
+export async function getExceptionsFromStorage(): Promise<RuleException[]> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: 'GET_EXCEPTIONS' }, (response) => {
+      resolve(response || []);
+    });
+  });
+}
+
+/**
+ * Load the per-user pseudonym key into the session vault
+ * Without it, pseudonym rules fall back to their plain placeholder
+ */
+export async function loadPseudonymKey(): Promise<void> {
+  const encoded = await new Promise<string | undefined>((resolve) => {
+    chrome.runtime.sendMessage({ type: 'GET_PSEUDONYM_KEY' }, resolve);
+  });
+  if (encoded) {
+    sessionVault.setPseudonymKey(decodePseudonymKey(encoded));
+  }
+}
+
 /**
  * Listen for storage changes and execute callback
- * @param callback - Function to call when rules change
+ * Dictionary terms live under their own keys, so rules are re-read with their terms attached.
+ * Global exceptions are re-read with them, as both go into the compiled rule set.
+ * @param callback - Function to call when rules or exceptions change
  */
-export function onRulesChanged(callback: (rules: Rule[]) => void): void {
+export function onRulesChanged(callback: (rules: Rule[], exceptions: RuleException[]) => void): void {
   chrome.storage.onChanged.addListener((changes, areaName) => {
-    if (areaName === 'local' && changes.rules) {
-      callback(changes.rules.newValue || []);
+    if (areaName === 'local' && (changes.rules || changes.exceptions || Object.keys(changes).some(isDictionaryKey))) {
+      Promise.all([getRulesFromStorage(), getExceptionsFromStorage()]).then(([rules, exceptions]) =>
+        callback(rules, exceptions)
+      );
     }
   });
 }
 
+/**
+ * Compile rules for a content script
+ * Regex rules that exceed the time budget stop running here and are reported, so the
+ * service worker can disable and flag them for every tab. Person names and other scored
+ * detector matches are shown in a notice on the page.
+ * @param rules - Rules from storage
+ * @param exceptions - Global exceptions from storage
+ * @returns Compiled rule set to share between the input handlers and the clipboard
+ */
+export function compileRules(rules: Rule[], exceptions: RuleException[] = []): CompiledRuleSet {
+  return new CompiledRuleSet(rules, {
+    exceptions,
+    budgetMs: RULE_BUDGET_MS,
+    onBudgetExceeded: (rule, elapsedMs) => {
+      logError(`Rule "${rule.original}" took ${Math.round(elapsedMs)}ms and was disabled`);
+      chrome.runtime.sendMessage({
+        type: 'FLAG_SLOW_RULE',
+        payload: { id: rule.id, elapsedMs },
+      });
+    },
+    onDetections: showDetectionNotice,
+  });
+}
+
 /**
  * Log with extension prefix for easier debugging
  * @param message - Message to log
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RuleException } from '../types';
+
+export const useExceptions = () => {
+  const [exceptions, setExceptions] = useState<RuleException[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Load global exceptions from storage
+    chrome.storage.local.get(['exceptions'], (result) => {
+      if (result.exceptions) {
+        setExceptions(result.exceptions);
+      }
+      setLoading(false);
+    });
+
+    // Listen for storage changes
+    const handleStorageChange = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName === 'local' && changes.exceptions) {
+        setExceptions(changes.exceptions.newValue || []);
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleStorageChange);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(handleStorageChange);
+    };
+  }, []);
+
+  const saveExceptions = useCallback(async (updated: RuleException[]) => {
+    await chrome.storage.local.set({ exceptions: updated });
+  }, []);
+
+  return { exceptions, loading, saveExceptions };
+};
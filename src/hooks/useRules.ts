@@ -1,9 +1,37 @@
 import { useCallback } from 'react';
 import { useStorage } from './useStorage';
-import type { Rule } from '../types';
+import type { Rule, RuleType } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { importRules as validateImport, getRulesToImport, getRulesToImportWithConflictResolution } from '../content-scripts/shared/ruleImportExport';
 import type { ImportResult, ConflictResolutionMap } from '../content-scripts/shared/ruleImportExport';
+import { saveDictionaryTerms, deleteDictionaryTerms } from '../lib/dictionaryStorage';
+import { applyRegexBudget, applyRegexBudgets } from '../lib/regexBudget';
+
+/**
+ * Renumber priorities within each rule type, keeping the current order
+ */
+const reindexPriorities = (rules: Rule[]): Rule[] => {
+  const types = Array.from(new Set(rules.map((r) => r.type)));
+  return types.flatMap((type) =>
+    rules
+      .filter((r) => r.type === type)
+      .sort((a, b) => a.priority - b.priority)
+      .map((r, i) => ({ ...r, priority: i }))
+  );
+};
+
+/**
+ * Move a dictionary's terms out of a rule and into their own storage key
+ * Returns the rule fields to persist, with the term count in place of the terms
+ */
+const storeTerms = async <T extends Partial<Rule>>(id: string, data: T): Promise<T> => {
+  const { terms, ...rest } = data;
+  if (!terms) {
+    return data;
+  }
+  await saveDictionaryTerms(id, terms);
+  return { ...rest, termCount: terms.length } as T;
+};
 
 export const useRules = () => {
   const { rules, loading } = useStorage();
@@ -14,10 +42,11 @@ export const useRules = () => {
       const sameTypeRules = rules.filter((r) => r.type === ruleData.type);
       const priority = sameTypeRules.length;
 
+      const id = uuidv4();
       const newRule: Rule = {
-        ...ruleData,
+        ...(await storeTerms(id, await applyRegexBudget(ruleData))),
         priority,
-        id: uuidv4(),
+        id,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -30,9 +59,18 @@ export const useRules = () => {
 
   const updateRule = useCallback(
     async (id: string, updates: Partial<Rule>) => {
+      const storedUpdates = await storeTerms(id, updates);
+      const existing = rules.find((rule) => rule.id === id);
+
+      // Re-check the time budget whenever the pattern or its matching mode changes
+      const patternChanged = 'original' in updates || 'caseSensitive' in updates || 'type' in updates;
+      const checked = existing && patternChanged
+        ? await applyRegexBudget({ ...existing, ...storedUpdates })
+        : { ...existing, ...storedUpdates };
+
       const updatedRules = rules.map((rule) =>
         rule.id === id
-          ? { ...rule, ...updates, updatedAt: new Date().toISOString() }
+          ? { ...rule, ...checked, updatedAt: new Date().toISOString() }
           : rule
       );
       await chrome.storage.local.set({ rules: updatedRules });
@@ -44,6 +82,7 @@ export const useRules = () => {
     async (id: string) => {
       const updatedRules = rules.filter((rule) => rule.id !== id);
       await chrome.storage.local.set({ rules: updatedRules });
+      await deleteDictionaryTerms(rules.filter((rule) => rule.id === id && rule.type === 'dictionary').map((rule) => rule.id));
     },
     [rules]
   );
@@ -52,7 +91,13 @@ export const useRules = () => {
     async (id: string) => {
       const updatedRules = rules.map((rule) =>
         rule.id === id
-          ? { ...rule, enabled: !rule.enabled, updatedAt: new Date().toISOString() }
+          ? {
+              ...rule,
+              enabled: !rule.enabled,
+              // Turning a flagged rule back on is the user's call; drop the flag
+              health: rule.enabled ? rule.health : undefined,
+              updatedAt: new Date().toISOString(),
+            }
           : rule
       );
       await chrome.storage.local.set({ rules: updatedRules });
@@ -71,15 +116,8 @@ export const useRules = () => {
     async (ids: string[]) => {
       const updatedRules = rules.filter((rule) => !ids.includes(rule.id));
       // Recalculate priorities for remaining rules
-      const exactRules = updatedRules
-        .filter((r) => r.type === 'exact')
-        .sort((a, b) => a.priority - b.priority)
-        .map((r, i) => ({ ...r, priority: i }));
-      const regexRules = updatedRules
-        .filter((r) => r.type === 'regex')
-        .sort((a, b) => a.priority - b.priority)
-        .map((r, i) => ({ ...r, priority: i }));
-      await chrome.storage.local.set({ rules: [...exactRules, ...regexRules] });
+      await chrome.storage.local.set({ rules: reindexPriorities(updatedRules) });
+      await deleteDictionaryTerms(rules.filter((rule) => ids.includes(rule.id) && rule.type === 'dictionary').map((rule) => rule.id));
     },
     [rules]
   );
@@ -88,7 +126,7 @@ export const useRules = () => {
     async (ids: string[], enabled: boolean) => {
       const updatedRules = rules.map((rule) =>
         ids.includes(rule.id)
-          ? { ...rule, enabled, updatedAt: new Date().toISOString() }
+          ? { ...rule, enabled, health: enabled ? undefined : rule.health, updatedAt: new Date().toISOString() }
           : rule
       );
       await chrome.storage.local.set({ rules: updatedRules });
@@ -97,12 +135,16 @@ export const useRules = () => {
   );
 
   const bulkUpdateType = useCallback(
-    async (ids: string[], newType: 'exact' | 'regex') => {
+    async (ids: string[], newType: RuleType) => {
       const now = new Date().toISOString();
 
+      // Only text-based rules convert; detector IDs, dictionary names and keyword lists are not patterns
+      const isTextType = (type: RuleType) => type === 'exact' || type === 'regex';
+      const isConvertible = (r: Rule) => ids.includes(r.id) && isTextType(r.type) && isTextType(newType);
+
       // Separate rules into those being changed and those not
-      const unchangedRules = rules.filter((r) => !ids.includes(r.id));
-      const changingRules = rules.filter((r) => ids.includes(r.id));
+      const unchangedRules = rules.filter((r) => !isConvertible(r));
+      const changingRules = rules.filter(isConvertible);
 
       // Get max priority of target type among unchanged rules
       const targetTypeUnchanged = unchangedRules.filter((r) => r.type === newType);
@@ -111,27 +153,20 @@ export const useRules = () => {
         : -1;
 
       // Update changing rules with new type and priorities
-      const updatedChangingRules = changingRules
-        .sort((a, b) => a.priority - b.priority)
-        .map((rule, index) => ({
-          ...rule,
-          type: newType,
-          priority: maxPriority + 1 + index,
-          updatedAt: now,
-        }));
+      const updatedChangingRules = await applyRegexBudgets(
+        changingRules
+          .sort((a, b) => a.priority - b.priority)
+          .map((rule, index) => ({
+            ...rule,
+            type: newType,
+            priority: maxPriority + 1 + index,
+            updatedAt: now,
+          }))
+      );
 
       // Recalculate all priorities
       const allRules = [...unchangedRules, ...updatedChangingRules];
-      const exactRules = allRules
-        .filter((r) => r.type === 'exact')
-        .sort((a, b) => a.priority - b.priority)
-        .map((r, i) => ({ ...r, priority: i }));
-      const regexRules = allRules
-        .filter((r) => r.type === 'regex')
-        .sort((a, b) => a.priority - b.priority)
-        .map((r, i) => ({ ...r, priority: i }));
-
-      await chrome.storage.local.set({ rules: [...exactRules, ...regexRules] });
+      await chrome.storage.local.set({ rules: reindexPriorities(allRules) });
     },
     [rules]
   );
@@ -160,8 +195,10 @@ export const useRules = () => {
         };
       });
 
-      // Merge with existing rules
-      const updatedRules = [...rules, ...newRules];
+      // Merge with existing rules; exported dictionaries carry their terms inline
+      const checkedRules = await applyRegexBudgets(newRules);
+      const storedRules = await Promise.all(checkedRules.map((rule) => storeTerms(rule.id, rule)));
+      const updatedRules = [...rules, ...storedRules];
       await chrome.storage.local.set({ rules: updatedRules });
 
       return validationResult;
@@ -204,7 +241,9 @@ export const useRules = () => {
       });
 
       // Merge: keep updated existing rules + add new rules
-      const finalRules = [...updatedExistingRules, ...newRules];
+      const checkedRules = await applyRegexBudgets(newRules);
+      const storedRules = await Promise.all(checkedRules.map((rule) => storeTerms(rule.id, rule)));
+      const finalRules = [...updatedExistingRules, ...storedRules];
       await chrome.storage.local.set({ rules: finalRules });
 
       const totalImported = rulesToImport.length + rulesToOverride.length;
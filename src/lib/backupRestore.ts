@@ -1,4 +1,5 @@
-import type { Rule, SiteSettingsMap, ExtensionSettings } from '../types';
+import type { Rule, RuleException, SiteSettingsMap, ExtensionSettings } from '../types';
+import { dictionaryKey, hydrateDictionaries } from './dictionaryStorage';
 
 export interface BackupData {
   version: string;
@@ -6,6 +7,7 @@ export interface BackupData {
   exportedAt: string;
   data: {
     rules: Rule[];
+    exceptions?: RuleException[]; // Global exceptions, restored with the rules
     siteSettings: SiteSettingsMap;
     settings: ExtensionSettings;
   };
@@ -33,14 +35,16 @@ const BACKUP_VERSION = '1.0';
  * Create a full backup of all Redactly data
  */
 export const createBackup = async (): Promise<string> => {
-  const result = await chrome.storage.local.get(['rules', 'siteSettings', 'settings']);
+  const result = await chrome.storage.local.get(['rules', 'exceptions', 'siteSettings', 'settings']);
 
   const backupData: BackupData = {
     version: '0.1.0', // App version
     backupVersion: BACKUP_VERSION,
     exportedAt: new Date().toISOString(),
     data: {
-      rules: result.rules || [],
+      // Dictionary terms are kept under their own keys; the backup carries them inline
+      rules: await hydrateDictionaries(result.rules || []),
+      exceptions: result.exceptions || [],
       siteSettings: result.siteSettings || {},
       settings: result.settings || {
         version: '0.1.0',
@@ -143,8 +147,20 @@ export const restoreBackup = async (
       caseSensitive: rule.caseSensitive ?? false,
       type: rule.type || 'exact',
     }));
-    updates.rules = restoredRules;
+
+    // Move inline dictionary terms back to their own keys
+    updates.rules = restoredRules.map(({ terms, ...rule }) => {
+      if (!terms) {
+        return rule;
+      }
+      updates[dictionaryKey(rule.id)] = terms;
+      return { ...rule, termCount: terms.length };
+    });
     details.rulesCount = restoredRules.length;
+
+    if (Array.isArray(data.exceptions)) {
+      updates.exceptions = data.exceptions;
+    }
   }
 
   if (options.restoreSiteSettings && data.siteSettings) {
@@ -0,0 +1,59 @@
+import type { Rule } from '../types';
+
+/**
+ * Dictionary term lists are stored under their own keys rather than inside the
+ * `rules` array, so editing one rule never rewrites (or re-broadcasts) thousands of terms
+ */
+const DICTIONARY_KEY_PREFIX = 'dictionary:';
+
+export const dictionaryKey = (ruleId: string): string => `${DICTIONARY_KEY_PREFIX}${ruleId}`;
+
+export const isDictionaryKey = (key: string): boolean => key.startsWith(DICTIONARY_KEY_PREFIX);
+
+/**
+ * Split pasted text into a clean term list: one term per line, trimmed, without duplicates
+ */
+export const parseTerms = (text: string): string[] => {
+  const terms = text
+    .split(/\r?\n/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+  return Array.from(new Set(terms));
+};
+
+export const getDictionaryTerms = async (ruleId: string): Promise<string[]> => {
+  const key = dictionaryKey(ruleId);
+  const result = await chrome.storage.local.get([key]);
+  return (result[key] as string[] | undefined) || [];
+};
+
+export const saveDictionaryTerms = async (ruleId: string, terms: string[]): Promise<void> => {
+  await chrome.storage.local.set({ [dictionaryKey(ruleId)]: terms });
+};
+
+export const deleteDictionaryTerms = async (ruleIds: string[]): Promise<void> => {
+  if (ruleIds.length > 0) {
+    await chrome.storage.local.remove(ruleIds.map(dictionaryKey));
+  }
+};
+
+/**
+ * Read the term lists of several dictionary rules in one storage call
+ */
+export const getAllDictionaryTerms = async (rules: Rule[]): Promise<Record<string, string[]>> => {
+  const ids = rules.filter((rule) => rule.type === 'dictionary').map((rule) => rule.id);
+  if (ids.length === 0) {
+    return {};
+  }
+
+  const result = await chrome.storage.local.get(ids.map(dictionaryKey));
+  return Object.fromEntries(ids.map((id) => [id, (result[dictionaryKey(id)] as string[] | undefined) || []]));
+};
+
+/**
+ * Attach stored term lists to dictionary rules so they can be matched
+ */
+export const hydrateDictionaries = async (rules: Rule[]): Promise<Rule[]> => {
+  const termsById = await getAllDictionaryTerms(rules);
+  return rules.map((rule) => (rule.type === 'dictionary' ? { ...rule, terms: termsById[rule.id] || [] } : rule));
+};
@@ -0,0 +1,31 @@
+const PSEUDONYM_KEY = 'pseudonymKey';
+
+let pending: Promise<string> | null = null;
+
+/**
+ * Create a random HMAC-SHA256 secret and store it base64 encoded
+ */
+async function createPseudonymKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256', length: 256 }, true, ['sign']);
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  const encoded = btoa(String.fromCharCode(...raw));
+  await chrome.storage.local.set({ [PSEUDONYM_KEY]: encoded });
+  return encoded;
+}
+
+/**
+ * Get the per-user pseudonym secret, creating it on first use
+ * The secret never leaves this device, so pseudonyms can't be linked to values anywhere else
+ * @returns The base64 encoded key
+ */
+export function ensurePseudonymKey(): Promise<string> {
+  pending ??= chrome.storage.local.get([PSEUDONYM_KEY]).then((result) => result[PSEUDONYM_KEY] ?? createPseudonymKey());
+  return pending;
+}
+
+/**
+ * Decode a stored pseudonym key
+ */
+export function decodePseudonymKey(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,114 @@
+import type { Rule } from '../types';
+
+// Longest a regex rule may take on the stress inputs when it is saved
+export const REGEX_BUDGET_MS = 250;
+
+// Longest the worker may take to load before the check is skipped; the budget only starts once it is ready
+const WORKER_STARTUP_MS = 10000;
+
+// Extra time allowed for passing the inputs and the result between the page and the worker
+const WORKER_MESSAGE_MS = 250;
+
+export interface BudgetResult {
+  withinBudget: boolean;
+  elapsedMs: number;
+}
+
+// Most literal chunks of a pattern that get their own stress inputs
+const MAX_STRESS_CHUNKS = 16;
+
+/**
+ * Build inputs that make vulnerable patterns backtrack: long runs of the characters the
+ * pattern uses, and of the literal chunks between its operators so alternatives like
+ * (a|b|ab)* see `ababab…`, each ending in a character that forces the match to fail
+ */
+export const buildStressInputs = (pattern: string): string[] => {
+  const literals = pattern.replace(/\\./g, '').match(/[\w\s.,:;@/-]/g) || [];
+  const alphabet = Array.from(new Set(['a', 'A', '0', ' ', '_', '-', '.', ...literals]));
+  const chunks = Array.from(new Set(pattern.split(/\\.|[()[\]{}|*+?^$]/).filter((chunk) => chunk.length > 1)))
+    .slice(0, MAX_STRESS_CHUNKS);
+
+  return [...alphabet, ...chunks].flatMap((run) => [
+    `${run.repeat(Math.ceil(32 / run.length))}\u0000`,
+    `${run.repeat(Math.ceil(4096 / run.length))}\u0000`,
+  ]);
+};
+
+/**
+ * Time a regex pattern on stress inputs in a worker, giving up once the budget is spent
+ * The timer starts when the worker says it is ready, so a slow worker start never counts against the
+ * pattern. A worker that fails to load or start leaves the pattern unjudged, as the content scripts
+ * still time every rule as it runs.
+ */
+export const measureRegex = (
+  pattern: string,
+  caseSensitive: boolean,
+  budgetMs: number = REGEX_BUDGET_MS
+): Promise<BudgetResult> => {
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./regexBudget.worker.ts', import.meta.url), { type: 'module' });
+    let started = 0;
+
+    const finish = (result: BudgetResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    let timer = setTimeout(() => finish({ withinBudget: true, elapsedMs: 0 }), WORKER_STARTUP_MS);
+
+    worker.onmessage = (e: MessageEvent<{ ready: true } | { elapsedMs: number }>) => {
+      if ('elapsedMs' in e.data) {
+        finish({ withinBudget: e.data.elapsedMs <= budgetMs, elapsedMs: e.data.elapsedMs });
+        return;
+      }
+
+      clearTimeout(timer);
+      started = performance.now();
+      timer = setTimeout(
+        () => finish({ withinBudget: false, elapsedMs: performance.now() - started }),
+        budgetMs + WORKER_MESSAGE_MS
+      );
+      worker.postMessage({
+        pattern,
+        flags: caseSensitive ? 'g' : 'gi',
+        inputs: buildStressInputs(pattern),
+      });
+    };
+    // An invalid pattern is reported by validation, not by the budget
+    worker.onerror = () => finish({ withinBudget: true, elapsedMs: 0 });
+  });
+};
+
+/**
+ * Check a regex rule against the budget before it is saved
+ * Rules that run over are kept but disabled and flagged; others have any old flag cleared
+ */
+export const applyRegexBudget = async <T extends Partial<Rule>>(rule: T): Promise<T> => {
+  if (rule.type !== 'regex' || rule.original === undefined) {
+    return rule;
+  }
+
+  const { withinBudget, elapsedMs } = await measureRegex(rule.original, rule.caseSensitive ?? false);
+  if (withinBudget) {
+    return { ...rule, health: undefined };
+  }
+
+  return {
+    ...rule,
+    enabled: false,
+    health: { status: 'too-slow', source: 'save', elapsedMs, flaggedAt: new Date().toISOString() },
+  };
+};
+
+/**
+ * Check several rules against the budget, one worker at a time
+ * Workers started side by side would share the CPU and time each other, so valid rules could be flagged.
+ */
+export const applyRegexBudgets = async <T extends Partial<Rule>>(rules: T[]): Promise<T[]> => {
+  const checked: T[] = [];
+  for (const rule of rules) {
+    checked.push(await applyRegexBudget(rule));
+  }
+  return checked;
+};
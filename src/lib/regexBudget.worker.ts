@@ -0,0 +1,30 @@
+/**
+ * Runs a regex rule against stress inputs off the main thread
+ * The worker says when it is ready, and the options page terminates it if it does not answer within the
+ * budget from then on.
+ */
+interface BudgetRequest {
+  pattern: string;
+  flags: string;
+  inputs: string[];
+}
+
+self.onmessage = (e: MessageEvent<BudgetRequest>) => {
+  const { pattern, flags, inputs } = e.data;
+  const regex = new RegExp(pattern, flags);
+  const started = performance.now();
+
+  for (const input of inputs) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(input)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+  }
+
+  self.postMessage({ elapsedMs: performance.now() - started });
+};
+
+self.postMessage({ ready: true });
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { RuleList } from './components/RuleList';
 import { RuleForm } from './components/RuleForm';
-import { RuleTester } from './components/RuleTester';
+import { RuleTester, RuleTestRunner } from './components/RuleTester';
 import { SiteSettings } from './components/SiteSettings';
 import { RuleImportExport } from './components/RuleImportExport';
 import { BackupRestore } from './components/BackupRestore';
+import { GlobalExceptions } from './components/GlobalExceptions';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { useRules } from '../hooks/useRules';
+import { useExceptions } from '../hooks/useExceptions';
 import { useTheme } from '../hooks/useTheme';
 
 type Tab = 'rules' | 'sites' | 'test' | 'backup';
@@ -25,6 +27,7 @@ export const Options: React.FC = () => {
     importRulesFromJson,
     importRulesWithConflictResolution,
   } = useRules();
+  const { exceptions, saveExceptions } = useExceptions();
   useTheme();
   const [activeTab, setActiveTab] = useState<Tab>('rules');
 
@@ -114,12 +117,18 @@ export const Options: React.FC = () => {
               onBulkToggle={bulkToggleRules}
               onBulkUpdateType={bulkUpdateType}
             />
+            <GlobalExceptions exceptions={exceptions} onSave={saveExceptions} />
           </>
         )}
 
         {activeTab === 'sites' && <SiteSettings />}
 
-        {activeTab === 'test' && <RuleTester rules={rules} />}
+        {activeTab === 'test' && (
+          <>
+            <RuleTester rules={rules} exceptions={exceptions} />
+            <RuleTestRunner rules={rules} exceptions={exceptions} />
+          </>
+        )}
 
         {activeTab === 'backup' && <BackupRestore />}
 
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Input } from '../../components/Input';
+import { Select } from '../../components/Select';
+import type { BoundaryMode } from '../../types';
+
+interface BoundaryFieldsProps {
+  boundary: BoundaryMode;
+  boundaryChars: string;
+  onBoundaryChange: (boundary: BoundaryMode) => void;
+  onBoundaryCharsChange: (boundaryChars: string) => void;
+}
+
+export const BoundaryFields: React.FC<BoundaryFieldsProps> = ({
+  boundary,
+  boundaryChars,
+  onBoundaryChange,
+  onBoundaryCharsChange,
+}) => {
+  return (
+    <div className="space-y-3">
+      <Select
+        label="Match Boundaries"
+        value={boundary}
+        onChange={(e) => onBoundaryChange(e.target.value as BoundaryMode)}
+        options={[
+          { value: 'word', label: 'Whole words only' },
+          { value: 'custom', label: 'Custom delimiters' },
+          { value: 'none', label: 'Anywhere, including inside words' },
+        ]}
+      />
+      {boundary === 'custom' && (
+        <Input
+          label="Delimiters"
+          placeholder="e.g., ,;|/"
+          value={boundaryChars}
+          onChange={(e) => onBoundaryCharsChange(e.target.value)}
+        />
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {boundary === 'word' && 'Skips matches inside longer words in any language, e.g. "Al" in "Also". Chinese, Japanese and Thai text has no spaces, so matches next to those characters are kept.'}
+        {boundary === 'custom' && 'Only matches surrounded by whitespace, the start or end of the text, or one of the delimiters above.'}
+        {boundary === 'none' && 'Matches wherever the text appears.'}
+      </p>
+    </div>
+  );
+};
@@ -23,6 +23,7 @@ export const BulkEditModal: React.FC<BulkEditModalProps> = ({
 
   const regexRulesCount = selectedRules.filter((r) => r.type === 'regex').length;
   const exactRulesCount = selectedRules.filter((r) => r.type === 'exact').length;
+  const fixedTypeRulesCount = selectedRules.filter((r) => r.type !== 'exact' && r.type !== 'regex').length;
 
   const handleConfirm = () => {
     onConfirm(selectedType);
@@ -74,6 +75,11 @@ export const BulkEditModal: React.FC<BulkEditModalProps> = ({
               {exactRulesCount} exact match rule{exactRulesCount !== 1 ? 's' : ''} will be converted to regex.
             </p>
           )}
+          {fixedTypeRulesCount > 0 && (
+            <p className="mt-2">
+              {fixedTypeRulesCount} detector, dictionary, context or domain rule{fixedTypeRulesCount !== 1 ? 's' : ''} will keep their type.
+            </p>
+          )}
         </div>
 
         <div className="max-h-32 overflow-y-auto">
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Select } from '../../components/Select';
+import { CODE_MODES } from '../../content-scripts/shared/code-blocks';
+import type { CodeMode } from '../../types';
+
+interface CodeModeFieldProps {
+  value: CodeMode;
+  onChange: (mode: CodeMode) => void;
+}
+
+export const CodeModeField: React.FC<CodeModeFieldProps> = ({ value, onChange }) => {
+  return (
+    <div>
+      <Select
+        label="Inside Code"
+        value={value}
+        onChange={(e) => onChange(e.target.value as CodeMode)}
+        options={CODE_MODES.map((info) => ({ value: info.mode, label: info.label }))}
+      />
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        {CODE_MODES.find((info) => info.mode === value)?.description} Code is text in ``` fences or backticks, or a
+        paste that reads as source code.
+      </p>
+    </div>
+  );
+};
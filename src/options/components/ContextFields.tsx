@@ -0,0 +1,70 @@
+import React from 'react';
+import { Input } from '../../components/Input';
+import { Select } from '../../components/Select';
+import { MAX_CONTEXT_WINDOW, VALUE_SHAPES } from '../../content-scripts/shared/context-rules';
+import type { ContextOptions, ValueShape } from '../../types';
+
+// Keywords are edited as text in the rule's `original` field
+export type ContextDraft = Omit<ContextOptions, 'keywords'>;
+
+interface ContextFieldsProps {
+  keywords: string;
+  context: ContextDraft;
+  onKeywordsChange: (keywords: string) => void;
+  onContextChange: (context: ContextDraft) => void;
+  keywordsError?: string;
+  patternError?: string;
+}
+
+export const ContextFields: React.FC<ContextFieldsProps> = ({
+  keywords,
+  context,
+  onKeywordsChange,
+  onContextChange,
+  keywordsError,
+  patternError,
+}) => {
+  return (
+    <div className="space-y-3">
+      <Input
+        label="Keywords"
+        placeholder="e.g., password, api key, token"
+        value={keywords}
+        onChange={(e) => onKeywordsChange(e.target.value)}
+        error={keywordsError}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label="Value"
+          value={context.shape}
+          onChange={(e) => onContextChange({ ...context, shape: e.target.value as ValueShape })}
+          options={VALUE_SHAPES.map((info) => ({ value: info.shape, label: info.label }))}
+        />
+        <Input
+          label="Window (characters)"
+          type="number"
+          min={0}
+          max={MAX_CONTEXT_WINDOW}
+          value={String(context.window)}
+          onChange={(e) => onContextChange({ ...context, window: Number(e.target.value) || 0 })}
+        />
+      </div>
+      {context.shape === 'custom' && (
+        <Input
+          label="Value Pattern"
+          placeholder="e.g., [A-Z]{2}\d{6}"
+          value={context.pattern ?? ''}
+          onChange={(e) => onContextChange({ ...context, pattern: e.target.value })}
+          className="font-mono"
+          error={patternError}
+        />
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Redacts the first value of this shape within the window after a keyword, on the same line, skipping words like
+        "is" and separators like "=". The keyword stays readable, e.g. "password is hunter2" becomes "password is
+        [SECRET_1]". Sentences about the keyword, like "password field is required", are left alone. While typing,
+        the value is redacted once the word is finished. Multi-word keywords also match with _ or - between the words.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { ExampleResult } from '../../content-scripts/shared/rule-tests';
+
+interface ExamplesFieldProps {
+  shouldMatch: string;
+  shouldNotMatch: string;
+  onShouldMatchChange: (value: string) => void;
+  onShouldNotMatchChange: (value: string) => void;
+  results?: ExampleResult[];     // Results of the current draft, to flag broken examples as you type
+}
+
+export const ExamplesField: React.FC<ExamplesFieldProps> = ({
+  shouldMatch,
+  shouldNotMatch,
+  onShouldMatchChange,
+  onShouldNotMatchChange,
+  results = [],
+}) => {
+  const failures = results.filter((result) => !result.passed);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Should Match
+          </label>
+          <textarea
+            value={shouldMatch}
+            onChange={(e) => onShouldMatchChange(e.target.value)}
+            className="input-field min-h-[72px] resize-y font-mono text-sm"
+            placeholder={'One example per line, e.g.\nInvoice INV-20391'}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Should Not Match
+          </label>
+          <textarea
+            value={shouldNotMatch}
+            onChange={(e) => onShouldNotMatchChange(e.target.value)}
+            className="input-field min-h-[72px] resize-y font-mono text-sm"
+            placeholder={'One example per line, e.g.\nINV-TEMPLATE'}
+          />
+        </div>
+      </div>
+      {failures.length > 0 ? (
+        <div className="text-xs text-gray-700 dark:text-gray-300 space-y-1">
+          <p className="font-medium">
+            Breaks {failures.length} example{failures.length !== 1 ? 's' : ''}:
+          </p>
+          {failures.map((result) => (
+            <p key={`${result.expected}:${result.example}`} className="font-mono">
+              {result.expected === 'match' ? 'not matched' : 'matched'}: {result.example}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Examples are checked as you edit and by "Run Rule Tests" on the Test tab.
+        </p>
+      )}
+    </div>
+  );
+};
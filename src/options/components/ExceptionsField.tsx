@@ -0,0 +1,72 @@
+import React from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from '../../components/Button';
+import { Checkbox } from '../../components/Checkbox';
+import { Input } from '../../components/Input';
+import { Select } from '../../components/Select';
+import { EXCEPTION_KINDS, validateException } from '../../content-scripts/shared/exceptions';
+import type { ExceptionKind, RuleException } from '../../types';
+
+interface ExceptionsFieldProps {
+  exceptions: RuleException[];
+  onChange: (exceptions: RuleException[]) => void;
+  label?: string;
+}
+
+export const ExceptionsField: React.FC<ExceptionsFieldProps> = ({ exceptions, onChange, label = 'Exceptions' }) => {
+  const update = (id: string, changes: Partial<RuleException>) => {
+    onChange(exceptions.map((exception) => (exception.id === id ? { ...exception, ...changes } : exception)));
+  };
+
+  const remove = (id: string) => {
+    onChange(exceptions.filter((exception) => exception.id !== id));
+  };
+
+  const add = () => {
+    onChange([...exceptions, { id: uuidv4(), kind: 'value', value: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-sm font-medium text-gray-900 dark:text-gray-100">{label}</span>
+      {exceptions.map((exception) => (
+        <div key={exception.id} className="flex items-start gap-2">
+          <div className="w-48 flex-shrink-0">
+            <Select
+              value={exception.kind}
+              onChange={(e) => update(exception.id, { kind: e.target.value as ExceptionKind })}
+              options={EXCEPTION_KINDS.map((info) => ({ value: info.kind, label: info.label }))}
+            />
+          </div>
+          <div className="flex-1">
+            <Input
+              placeholder={EXCEPTION_KINDS.find((info) => info.kind === exception.kind)?.placeholder}
+              value={exception.value}
+              onChange={(e) => update(exception.id, { value: e.target.value })}
+              className={exception.kind === 'pattern' ? 'font-mono' : ''}
+              error={exception.value.trim() ? validateException(exception) : undefined}
+            />
+          </div>
+          <div className="pt-2">
+            <Checkbox
+              label="Aa"
+              checked={!!exception.caseSensitive}
+              onChange={(checked) => update(exception.id, { caseSensitive: checked })}
+            />
+          </div>
+          <Button type="button" variant="secondary" onClick={() => remove(exception.id)}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="secondary" onClick={add}>
+        Add Exception
+      </Button>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Matches caught by an exception stay readable. A global exception keeps every rule off that text; a
+        rule's own exception only stops that rule, so another rule may still redact it. "Aa" makes the
+        comparison case sensitive.
+      </p>
+    </div>
+  );
+};
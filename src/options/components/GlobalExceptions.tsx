@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../../components/Button';
+import { ExceptionsField } from './ExceptionsField';
+import { areExceptionsValid, withoutBlankExceptions } from '../../content-scripts/shared/exceptions';
+import type { RuleException } from '../../types';
+
+interface GlobalExceptionsProps {
+  exceptions: RuleException[];
+  onSave: (exceptions: RuleException[]) => void;
+}
+
+export const GlobalExceptions: React.FC<GlobalExceptionsProps> = ({ exceptions, onSave }) => {
+  const [draft, setDraft] = useState<RuleException[]>(exceptions);
+
+  // Follow changes saved elsewhere, such as a restored backup
+  useEffect(() => {
+    setDraft(exceptions);
+  }, [exceptions]);
+
+  const isDirty = JSON.stringify(withoutBlankExceptions(draft)) !== JSON.stringify(exceptions);
+
+  return (
+    <div className="card mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Never Redact
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Exceptions checked for every rule, such as your public support address, product names or documentation IPs.
+        Rules can also have their own exceptions.
+      </p>
+      <div className="space-y-4">
+        <ExceptionsField exceptions={draft} onChange={setDraft} label="Global Exceptions" />
+        <Button
+          variant="primary"
+          onClick={() => onSave(withoutBlankExceptions(draft))}
+          disabled={!isDirty || !areExceptionsValid(draft)}
+        >
+          Save Exceptions
+        </Button>
+      </div>
+    </div>
+  );
+};
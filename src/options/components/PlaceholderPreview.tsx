@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Input } from '../../components/Input';
+import { isTemplate, renderTemplate, templateRuleName } from '../../content-scripts/shared/placeholder-template';
+import { applyTransform, type TransformKeys } from '../../content-scripts/shared/transforms';
+import { pseudonymFor } from '../../content-scripts/shared/pseudonyms';
+import type { RuleTransform, RuleType } from '../../types';
+
+interface PlaceholderPreviewProps {
+  placeholder: string;
+  type: RuleType;
+  original: string;
+  name?: string;
+  caseSensitive: boolean;
+  transform?: RuleTransform;
+}
+
+// Real offsets and factors are picked per session, so the preview uses example ones
+const EXAMPLE_KEYS: TransformKeys = { dateOffsetDays: 100, amountFactor: 1.5, surrogateSeed: 0 };
+const EXAMPLE_PSEUDONYM_KEY = new Uint8Array(32);
+
+/**
+ * Render the rule's mask or placeholder template against a sample value
+ * Returns the preview text, or a message explaining why there is none
+ */
+function preview(props: PlaceholderPreviewProps, sample: string): string {
+  const { placeholder, type, original, caseSensitive, transform } = props;
+
+  if (transform) {
+    const value = type === 'exact' ? original : sample;
+    if (!value) {
+      return 'Enter a sample value to preview';
+    }
+    if (transform.kind === 'pseudonym') {
+      return pseudonymFor({ placeholder, caseSensitive }, value, EXAMPLE_PSEUDONYM_KEY);
+    }
+    return applyTransform(transform, value, EXAMPLE_KEYS) ?? `${placeholder} (the transform doesn't fit this value)`;
+  }
+  return previewTemplate(props, sample);
+}
+
+function previewTemplate({ placeholder, type, original, name, caseSensitive }: PlaceholderPreviewProps, sample: string): string {
+  const ruleName = templateRuleName({ name, type, original });
+
+  if (type === 'exact') {
+    return renderTemplate(placeholder, { value: original, n: 1, ruleName });
+  }
+  if (!sample) {
+    return 'Enter a sample value to preview';
+  }
+  if (type !== 'regex') {
+    return renderTemplate(placeholder, { value: sample, n: 1, ruleName });
+  }
+
+  let match: RegExpExecArray | null;
+  try {
+    match = new RegExp(original, caseSensitive ? '' : 'i').exec(sample);
+  } catch {
+    return 'Invalid regular expression';
+  }
+  if (!match) {
+    return 'The pattern does not match the sample';
+  }
+  return renderTemplate(placeholder, {
+    value: match[0],
+    groups: match.slice(1),
+    namedGroups: match.groups,
+    n: 1,
+    ruleName,
+  });
+}
+
+export const PlaceholderPreview: React.FC<PlaceholderPreviewProps> = (props) => {
+  const [sample, setSample] = useState('');
+
+  if (!props.transform && !isTemplate(props.placeholder)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {props.type !== 'exact' && (
+        <Input
+          label="Sample Value"
+          placeholder={props.type === 'regex' ? 'e.g., ACC-1234-5678' : props.type === 'domain' ? 'e.g., bob@acme.com' : 'e.g., Acme Corp'}
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+        />
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Preview: <span className="font-mono text-gray-900 dark:text-gray-100">{preview(props, sample)}</span>
+      </p>
+    </div>
+  );
+};
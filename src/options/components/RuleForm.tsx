@@ -1,8 +1,28 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '../../components/Button';
 import { Input } from '../../components/Input';
 import { Select } from '../../components/Select';
-import type { Rule, RuleType } from '../../types';
+import { Checkbox } from '../../components/Checkbox';
+import { DETECTORS, getDetector, type DetectorId } from '../../content-scripts/shared/detectors';
+import { DEFAULT_ENTROPY_MIN_LENGTH, DEFAULT_ENTROPY_THRESHOLD } from '../../content-scripts/shared/entropy';
+import { DEFAULT_NAME_CONFIDENCE } from '../../content-scripts/shared/person-names';
+import { DEFAULT_SENSITIVE_KEYS } from '../../content-scripts/shared/structured-data';
+import { DEFAULT_SECRET_PARAMS } from '../../content-scripts/shared/urls';
+import { BoundaryFields } from './BoundaryFields';
+import { PlaceholderPreview } from './PlaceholderPreview';
+import { TermsField } from './TermsField';
+import { TransformFields } from './TransformFields';
+import { ContextFields, type ContextDraft } from './ContextFields';
+import { ExamplesField } from './ExamplesField';
+import { CodeModeField } from './CodeModeField';
+import { parseTerms } from '../../lib/dictionaryStorage';
+import { validateRegex } from '../../content-scripts/shared/redactor';
+import { analyzeRegex } from '../../content-scripts/shared/regex-safety';
+import { DEFAULT_CONTEXT_WINDOW, parseKeywords, validateValuePattern } from '../../content-scripts/shared/context-rules';
+import { parseExamples } from '../../content-scripts/shared/rule-tests';
+import { parseDomains, validateDomainList } from '../../content-scripts/shared/domains';
+import { validatePlaceholder } from '../../content-scripts/shared/placeholder-template';
+import type { BoundaryMode, CodeMode, Rule, RuleTransform, RuleType } from '../../types';
 
 interface RuleFormProps {
   onSubmit: (ruleData: Omit<Rule, 'id' | 'createdAt' | 'updatedAt' | 'priority'>) => void;
@@ -10,47 +30,203 @@ interface RuleFormProps {
 
 export const RuleForm: React.FC<RuleFormProps> = ({ onSubmit }) => {
   const [original, setOriginal] = useState('');
+  const [termsText, setTermsText] = useState('');
   const [placeholder, setPlaceholder] = useState('');
+  const [name, setName] = useState('');
   const [type, setType] = useState<RuleType>('exact');
+  const [detectorId, setDetectorId] = useState<DetectorId>(DETECTORS[0].id);
+  const [minLength, setMinLength] = useState(String(DEFAULT_ENTROPY_MIN_LENGTH));
+  const [threshold, setThreshold] = useState(String(DEFAULT_ENTROPY_THRESHOLD));
+  const [allowUuids, setAllowUuids] = useState(true);
+  const [allowCommitHashes, setAllowCommitHashes] = useState(true);
+  const [confidence, setConfidence] = useState(String(DEFAULT_NAME_CONFIDENCE));
+  const [allowlist, setAllowlist] = useState('');
+  const [reportOnly, setReportOnly] = useState(false);
+  const [secretKeys, setSecretKeys] = useState(DEFAULT_SENSITIVE_KEYS.join(', '));
+  const [csvColumns, setCsvColumns] = useState('');
+  const [domains, setDomains] = useState('');
+  const [secretParams, setSecretParams] = useState(DEFAULT_SECRET_PARAMS.join(', '));
+  const [stripParams, setStripParams] = useState(false);
+  const [boundary, setBoundary] = useState<BoundaryMode>('word');
+  const [boundaryChars, setBoundaryChars] = useState('');
+  const [normalize, setNormalize] = useState(false);
+  const [inCode, setInCode] = useState<CodeMode>('identifier');
+  const [matchEncoded, setMatchEncoded] = useState(false);
+  const [transform, setTransform] = useState<RuleTransform | undefined>(undefined);
+  const [context, setContext] = useState<ContextDraft>({ shape: 'any', window: DEFAULT_CONTEXT_WINDOW });
   const [caseSensitive, setCaseSensitive] = useState(false);
-  const [errors, setErrors] = useState<{ original?: string; placeholder?: string }>({});
+  const [shouldMatch, setShouldMatch] = useState('');
+  const [shouldNotMatch, setShouldNotMatch] = useState('');
+  const [errors, setErrors] = useState<{ original?: string; placeholder?: string; terms?: string; pattern?: string }>({});
+
+  const regexSafety = useMemo(
+    () => (type === 'regex' && original.trim() ? analyzeRegex(original.trim(), caseSensitive) : null),
+    [type, original, caseSensitive]
+  );
+
+  const usesRuleName = placeholder.includes('{{ruleName}}');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
     // Validation
-    const newErrors: { original?: string; placeholder?: string } = {};
+    const newErrors: { original?: string; placeholder?: string; terms?: string; pattern?: string } = {};
+    const terms = type === 'dictionary' ? parseTerms(termsText) : [];
+    const keywords = type === 'keyvalue' ? parseKeywords(original) : [];
+
+    if (type === 'keyvalue') {
+      if (keywords.length === 0) {
+        newErrors.original = 'Add at least one keyword';
+      }
+      if (context.shape === 'custom') {
+        newErrors.pattern = validateValuePattern(context.pattern ?? '', caseSensitive);
+      }
+    } else if (type === 'domain') {
+      newErrors.original = validateDomainList(original);
+    } else if (type !== 'detector' && !original.trim()) {
+      newErrors.original = type === 'dictionary' ? 'Dictionary name is required' : 'Original text is required';
+    }
+
+    if (type === 'regex' && original.trim()) {
+      if (!validateRegex(original.trim())) {
+        newErrors.original = 'Invalid regular expression';
+      } else if (regexSafety && regexSafety.errors.length > 0) {
+        newErrors.original = regexSafety.errors[0];
+      }
+    }
 
-    if (!original.trim()) {
-      newErrors.original = 'Original text is required';
+    if (type === 'dictionary' && terms.length === 0) {
+      newErrors.terms = 'Add at least one term';
     }
 
     if (!placeholder.trim()) {
       newErrors.placeholder = 'Placeholder is required';
+    } else {
+      newErrors.placeholder = validatePlaceholder(placeholder.trim());
     }
 
-    if (Object.keys(newErrors).length > 0) {
+    if (Object.values(newErrors).some(Boolean)) {
       setErrors(newErrors);
       return;
     }
 
+    const configurable = type === 'detector' ? getDetector(detectorId)?.configurable : undefined;
+    const minConfidence = Number(confidence);
+    const matchExamples = parseExamples(shouldMatch);
+    const noMatchExamples = parseExamples(shouldNotMatch);
+
     // Submit the rule
     onSubmit({
-      original: original.trim(),
+      original: type === 'detector'
+        ? detectorId
+        : type === 'keyvalue'
+          ? keywords.join(', ')
+          : type === 'domain' ? parseDomains(original).join(', ') : original.trim(),
       placeholder: placeholder.trim(),
+      ...(usesRuleName && name.trim() && { name: name.trim() }),
       type,
       enabled: true,
       caseSensitive,
+      ...(type !== 'detector' && type !== 'domain' && { normalize }),
+      inCode,
+      ...(type === 'exact' && { matchEncoded }),
+      ...((type === 'exact' || type === 'dictionary') && {
+        boundary,
+        boundaryChars: boundary === 'custom' ? boundaryChars : undefined,
+      }),
+      ...(type === 'dictionary' && { terms }),
+      ...(type === 'keyvalue' && {
+        context: {
+          keywords,
+          shape: context.shape,
+          window: context.window,
+          ...(context.shape === 'custom' && { pattern: context.pattern?.trim() }),
+        },
+      }),
+      ...(transform && { transform }),
+      ...(matchExamples.length > 0 && { shouldMatch: matchExamples }),
+      ...(noMatchExamples.length > 0 && { shouldNotMatch: noMatchExamples }),
+      ...(configurable === 'entropy' && {
+        detectorOptions: {
+          minLength: Number(minLength) || DEFAULT_ENTROPY_MIN_LENGTH,
+          threshold: Number(threshold) || DEFAULT_ENTROPY_THRESHOLD,
+          allowUuids,
+          allowCommitHashes,
+        },
+      }),
+      ...(configurable === 'names' && {
+        detectorOptions: {
+          confidence: confidence.trim() && Number.isFinite(minConfidence)
+            ? Math.min(Math.max(minConfidence, 0), 1)
+            : DEFAULT_NAME_CONFIDENCE,
+          allowlist: parseKeywords(allowlist),
+          reportOnly,
+        },
+      }),
+      ...(configurable === 'structured' && {
+        detectorOptions: {
+          keys: parseKeywords(secretKeys),
+          columns: parseKeywords(csvColumns),
+        },
+      }),
+      ...(configurable === 'url' && {
+        detectorOptions: {
+          domains: parseKeywords(domains),
+          params: parseKeywords(secretParams),
+          stripParams,
+        },
+      }),
     });
 
     // Reset form
     setOriginal('');
+    setTermsText('');
     setPlaceholder('');
+    setName('');
     setType('exact');
+    setDetectorId(DETECTORS[0].id);
+    setMinLength(String(DEFAULT_ENTROPY_MIN_LENGTH));
+    setThreshold(String(DEFAULT_ENTROPY_THRESHOLD));
+    setAllowUuids(true);
+    setAllowCommitHashes(true);
+    setConfidence(String(DEFAULT_NAME_CONFIDENCE));
+    setAllowlist('');
+    setReportOnly(false);
+    setSecretKeys(DEFAULT_SENSITIVE_KEYS.join(', '));
+    setCsvColumns('');
+    setDomains('');
+    setSecretParams(DEFAULT_SECRET_PARAMS.join(', '));
+    setStripParams(false);
+    setBoundary('word');
+    setBoundaryChars('');
+    setNormalize(false);
+    setInCode('identifier');
+    setMatchEncoded(false);
+    setTransform(undefined);
+    setContext({ shape: 'any', window: DEFAULT_CONTEXT_WINDOW });
     setCaseSensitive(false);
+    setShouldMatch('');
+    setShouldNotMatch('');
     setErrors({});
   };
 
+  const handleTypeChange = (newType: RuleType) => {
+    setType(newType);
+    if (newType === 'detector' && !placeholder.trim()) {
+      setPlaceholder(getDetector(detectorId)?.placeholder ?? '');
+    }
+  };
+
+  const handleDetectorChange = (newDetectorId: DetectorId) => {
+    // Follow the detector's suggested placeholder unless the user typed their own
+    if (!placeholder.trim() || placeholder === getDetector(detectorId)?.placeholder) {
+      setPlaceholder(getDetector(newDetectorId)?.placeholder ?? '');
+    }
+    setDetectorId(newDetectorId);
+  };
+
+  const selectedDetector = getDetector(detectorId);
+
   return (
     <form onSubmit={handleSubmit} className="card mb-6">
       <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -58,13 +234,170 @@ export const RuleForm: React.FC<RuleFormProps> = ({ onSubmit }) => {
       </h2>
 
       <div className="space-y-4">
-        <Input
-          label="Original Text"
-          placeholder="e.g., John Doe"
-          value={original}
-          onChange={(e) => setOriginal(e.target.value)}
-          error={errors.original}
-        />
+        {type === 'detector' ? (
+          <div>
+            <Select
+              label="Detector"
+              value={detectorId}
+              onChange={(e) => handleDetectorChange(e.target.value as DetectorId)}
+              options={DETECTORS.map((detector) => ({ value: detector.id, label: detector.label }))}
+            />
+            {selectedDetector && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {selectedDetector.description}
+              </p>
+            )}
+            {selectedDetector?.configurable === 'entropy' && (
+              <div className="mt-3 space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <Input
+                    label="Minimum length"
+                    type="number"
+                    min={8}
+                    value={minLength}
+                    onChange={(e) => setMinLength(e.target.value)}
+                  />
+                  <Input
+                    label="Entropy threshold (bits/char)"
+                    type="number"
+                    min={1}
+                    max={6}
+                    step={0.1}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                </div>
+                <Checkbox label="Allow UUIDs" checked={allowUuids} onChange={setAllowUuids} />
+                <Checkbox label="Allow 40-character commit hashes" checked={allowCommitHashes} onChange={setAllowCommitHashes} />
+              </div>
+            )}
+            {selectedDetector?.configurable === 'names' && (
+              <div className="mt-3 space-y-3">
+                <Input
+                  label="Minimum confidence (0-1)"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={confidence}
+                  onChange={(e) => setConfidence(e.target.value)}
+                />
+                <Input
+                  label="Never flag"
+                  placeholder="e.g., Ada Lovelace, Grace"
+                  value={allowlist}
+                  onChange={(e) => setAllowlist(e.target.value)}
+                />
+                <Checkbox
+                  label="Only show detected names, don't redact them"
+                  checked={reportOnly}
+                  onChange={setReportOnly}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  A known first and last name scores about 0.8, a title like Dr. adds 0.6. Detected names are listed in
+                  the tester and in a notice next to the chat box.
+                </p>
+              </div>
+            )}
+            {selectedDetector?.configurable === 'structured' && (
+              <div className="mt-3 space-y-3">
+                <Input
+                  label="Secret keys"
+                  placeholder="e.g., password, token, dsn"
+                  value={secretKeys}
+                  onChange={(e) => setSecretKeys(e.target.value)}
+                />
+                <Input
+                  label="CSV columns"
+                  placeholder="e.g., email, phone"
+                  value={csvColumns}
+                  onChange={(e) => setCsvColumns(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  A key is secret when it ends in one of the secret keys as whole words, ignoring case, dots, dashes and
+                  underscores, so "token" also covers GITHUB_TOKEN and refreshToken but not tokenizer or token_type, and
+                  "password" leaves passwordHint alone. Values under a secret key are redacted in JSON,
+                  YAML, .env and INI; in CSV, columns with a secret or listed header are redacted.
+                </p>
+              </div>
+            )}
+            {selectedDetector?.configurable === 'url' && (
+              <div className="mt-3 space-y-3">
+                <Input
+                  label="Internal domains"
+                  placeholder="e.g., corp.acme.com, *.internal"
+                  value={domains}
+                  onChange={(e) => setDomains(e.target.value)}
+                />
+                <Input
+                  label="Secret query parameters"
+                  placeholder="e.g., sig, token, X-Amz-*"
+                  value={secretParams}
+                  onChange={(e) => setSecretParams(e.target.value)}
+                />
+                <Checkbox
+                  label="Remove these parameters instead of redacting their values"
+                  checked={stripParams}
+                  onChange={setStripParams}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  A domain also covers its subdomains and <span className="font-mono">*</span> stands for part of a
+                  name. Usernames and passwords in URLs are always redacted. Inside URLs, every rule uses identifiers
+                  like URL_PART_1 so the link stays valid; removed parameters are not restored.
+                </p>
+              </div>
+            )}
+          </div>
+        ) : type === 'keyvalue' ? (
+          <ContextFields
+            keywords={original}
+            context={context}
+            onKeywordsChange={setOriginal}
+            onContextChange={setContext}
+            keywordsError={errors.original}
+            patternError={errors.pattern}
+          />
+        ) : type === 'dictionary' ? (
+          <>
+            <Input
+              label="Dictionary Name"
+              placeholder="e.g., Client names"
+              value={original}
+              onChange={(e) => setOriginal(e.target.value)}
+              error={errors.original}
+            />
+            <TermsField value={termsText} onChange={setTermsText} error={errors.terms} />
+          </>
+        ) : type === 'domain' ? (
+          <div>
+            <Input
+              label="Domains"
+              placeholder="e.g., acme.com, *.corp.acme.com"
+              value={original}
+              onChange={(e) => setOriginal(e.target.value)}
+              error={errors.original}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Matches email addresses, hostnames and URLs under each domain and all of its subdomains, e.g. acme.com
+              covers bob@acme.com, mail.acme.com and https://wiki.acme.com/page.
+            </p>
+          </div>
+        ) : (
+          <div>
+            <Input
+              label="Original Text"
+              placeholder="e.g., John Doe"
+              value={original}
+              onChange={(e) => setOriginal(e.target.value)}
+              error={errors.original}
+            />
+            {regexSafety?.warnings.map((warning) => (
+              <p key={warning} className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Warning: {warning}
+              </p>
+            ))}
+          </div>
+        )}
 
         <Input
           label="Placeholder"
@@ -73,28 +406,98 @@ export const RuleForm: React.FC<RuleFormProps> = ({ onSubmit }) => {
           onChange={(e) => setPlaceholder(e.target.value)}
           error={errors.placeholder}
         />
+        {type !== 'exact' && (
+          <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Each distinct match gets its own numbered token, e.g. [EMAIL] becomes [EMAIL_1], [EMAIL_2]
+          </p>
+        )}
+        <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Templates: <span className="font-mono">$1</span> capture group (regex), <span className="font-mono">{'{{ruleName}}'}</span>,{' '}
+          <span className="font-mono">{'{{n}}'}</span> value number, <span className="font-mono">{'{{len}}'}</span> length,{' '}
+          <span className="font-mono">{'{{hash}}'}</span> short stable hash, e.g. [ACCT_$1]
+        </p>
+
+        {usesRuleName && (
+          <Input
+            label="Rule Name"
+            placeholder="e.g., CLIENT"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        )}
+
+        <TransformFields transform={transform} onChange={setTransform} />
+
+        <PlaceholderPreview
+          placeholder={placeholder}
+          type={type}
+          original={type === 'detector' ? detectorId : original}
+          name={name}
+          caseSensitive={caseSensitive}
+          transform={transform}
+        />
 
         <Select
           label="Rule Type"
           value={type}
-          onChange={(e) => setType(e.target.value as RuleType)}
+          onChange={(e) => handleTypeChange(e.target.value as RuleType)}
           options={[
             { value: 'exact', label: 'Exact Match' },
             { value: 'regex', label: 'Regex' },
+            { value: 'dictionary', label: 'Dictionary' },
+            { value: 'keyvalue', label: 'Context (keyword + value)' },
+            { value: 'domain', label: 'Domain (emails, hosts, URLs)' },
+            { value: 'detector', label: 'Detector' },
           ]}
         />
 
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={caseSensitive}
-            onChange={(e) => setCaseSensitive(e.target.checked)}
-            className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 checked:bg-gray-900 dark:checked:bg-white focus:ring-2 focus:ring-gray-900 dark:focus:ring-white accent-gray-900 dark:accent-white"
+        {(type === 'exact' || type === 'dictionary') && (
+          <BoundaryFields
+            boundary={boundary}
+            boundaryChars={boundaryChars}
+            onBoundaryChange={setBoundary}
+            onBoundaryCharsChange={setBoundaryChars}
           />
-          <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-            Case sensitive matching
-          </span>
-        </label>
+        )}
+
+        {type !== 'detector' && type !== 'domain' && (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={caseSensitive}
+              onChange={(e) => setCaseSensitive(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 checked:bg-gray-900 dark:checked:bg-white focus:ring-2 focus:ring-gray-900 dark:focus:ring-white accent-gray-900 dark:accent-white"
+            />
+            <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+              Case sensitive matching
+            </span>
+          </label>
+        )}
+
+        {type !== 'detector' && type !== 'domain' && (
+          <Checkbox
+            label="Catch disguised variants (look-alike letters, hidden characters, full-width text)"
+            checked={normalize}
+            onChange={setNormalize}
+          />
+        )}
+
+        {type === 'exact' && (
+          <Checkbox
+            label="Also catch it base64, URL-encoded or hex encoded, e.g. in a Basic auth header"
+            checked={matchEncoded}
+            onChange={setMatchEncoded}
+          />
+        )}
+
+        <CodeModeField value={inCode} onChange={setInCode} />
+
+        <ExamplesField
+          shouldMatch={shouldMatch}
+          shouldNotMatch={shouldNotMatch}
+          onShouldMatchChange={setShouldMatch}
+          onShouldNotMatchChange={setShouldNotMatch}
+        />
 
         <Button type="submit" variant="primary">
           Add Rule
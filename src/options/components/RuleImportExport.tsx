@@ -2,6 +2,7 @@ import React, { useRef, useState } from 'react';
 import { Button } from '../../components/Button';
 import { Modal } from '../../components/Modal';
 import { exportRules } from '../../content-scripts/shared/ruleImportExport';
+import { hydrateDictionaries } from '../../lib/dictionaryStorage';
 import type { Rule } from '../../types';
 import type { ImportResult, ConflictResolutionMap } from '../../content-scripts/shared/ruleImportExport';
 
@@ -24,8 +25,9 @@ export const RuleImportExport: React.FC<RuleImportExportProps> = ({
   const [pendingJsonContent, setPendingJsonContent] = useState<string | null>(null);
   const [conflictResolutions, setConflictResolutions] = useState<Record<string, 'override' | 'skip'>>({});
 
-  const handleExport = () => {
-    const jsonContent = exportRules(rules);
+  const handleExport = async () => {
+    // Dictionary terms are stored apart from the rules, so they are attached for export
+    const jsonContent = exportRules(await hydrateDictionaries(rules));
     const blob = new Blob([jsonContent], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -1,9 +1,28 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '../../components/Button';
 import { Toggle } from '../../components/Toggle';
 import { Modal } from '../../components/Modal';
 import { Checkbox } from '../../components/Checkbox';
-import type { Rule } from '../../types';
+import { Input } from '../../components/Input';
+import { BoundaryFields } from './BoundaryFields';
+import { TermsField } from './TermsField';
+import { PlaceholderPreview } from './PlaceholderPreview';
+import { TransformFields } from './TransformFields';
+import { ContextFields, type ContextDraft } from './ContextFields';
+import { ExceptionsField } from './ExceptionsField';
+import { ExamplesField } from './ExamplesField';
+import { CodeModeField } from './CodeModeField';
+import { getDictionaryTerms, parseTerms } from '../../lib/dictionaryStorage';
+import { getDetector } from '../../content-scripts/shared/detectors';
+import { validateRegex } from '../../content-scripts/shared/redactor';
+import { analyzeRegex } from '../../content-scripts/shared/regex-safety';
+import { DEFAULT_KEEP_LAST, getTransform, isOneWay } from '../../content-scripts/shared/transforms';
+import { DEFAULT_CONTEXT_WINDOW, parseKeywords, validateValuePattern, VALUE_SHAPES } from '../../content-scripts/shared/context-rules';
+import { areExceptionsValid, describeException, withoutBlankExceptions } from '../../content-scripts/shared/exceptions';
+import { checkExamples, parseExamples } from '../../content-scripts/shared/rule-tests';
+import { parseDomains, validateDomainList } from '../../content-scripts/shared/domains';
+import { validatePlaceholder } from '../../content-scripts/shared/placeholder-template';
+import type { BoundaryMode, CodeMode, Rule, RuleException, RuleTransform } from '../../types';
 
 interface RuleItemProps {
   rule: Rule;
@@ -24,6 +43,61 @@ export const RuleItem: React.FC<RuleItemProps> = ({
   onToggleSelect,
 }) => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [editOriginal, setEditOriginal] = useState(rule.original);
+  const [editPlaceholder, setEditPlaceholder] = useState(rule.placeholder);
+  const [editName, setEditName] = useState(rule.name ?? '');
+  const [editBoundary, setEditBoundary] = useState<BoundaryMode>(rule.boundary ?? 'none');
+  const [editBoundaryChars, setEditBoundaryChars] = useState(rule.boundaryChars ?? '');
+  const [editNormalize, setEditNormalize] = useState(rule.normalize ?? false);
+  const [editInCode, setEditInCode] = useState<CodeMode>(rule.inCode ?? 'identifier');
+  const [editMatchEncoded, setEditMatchEncoded] = useState(rule.matchEncoded ?? false);
+  const [editTerms, setEditTerms] = useState<string | null>(null);
+  const [editTransform, setEditTransform] = useState<RuleTransform | undefined>(rule.transform);
+  const [editContext, setEditContext] = useState<ContextDraft>(rule.context ?? { shape: 'any', window: DEFAULT_CONTEXT_WINDOW });
+  const [editExceptions, setEditExceptions] = useState<RuleException[]>(rule.exceptions ?? []);
+  const [editShouldMatch, setEditShouldMatch] = useState((rule.shouldMatch ?? []).join('\n'));
+  const [editShouldNotMatch, setEditShouldNotMatch] = useState((rule.shouldNotMatch ?? []).join('\n'));
+
+  // Detector rules store the detector ID, so show its name instead
+  const originalLabel = rule.type === 'detector'
+    ? getDetector(rule.original)?.label ?? rule.original
+    : rule.original;
+
+  const exampleCount = (rule.shouldMatch?.length ?? 0) + (rule.shouldNotMatch?.length ?? 0);
+
+  // Imported rules skip the form checks, so unsafe patterns are also flagged here
+  const unsafePattern = useMemo(
+    () => (rule.type === 'regex' ? analyzeRegex(rule.original, rule.caseSensitive).errors[0] : undefined),
+    [rule.type, rule.original, rule.caseSensitive]
+  );
+
+  const editRegexError = useMemo(() => {
+    if (rule.type !== 'regex' || !showEditModal || !editOriginal.trim()) {
+      return undefined;
+    }
+    if (!validateRegex(editOriginal.trim())) {
+      return 'Invalid regular expression';
+    }
+    return analyzeRegex(editOriginal.trim(), rule.caseSensitive).errors[0];
+  }, [rule.type, rule.caseSensitive, showEditModal, editOriginal]);
+
+  const editDomainError = useMemo(
+    () => (rule.type === 'domain' && showEditModal ? validateDomainList(editOriginal) : undefined),
+    [rule.type, showEditModal, editOriginal]
+  );
+
+  const editPlaceholderError = useMemo(
+    () => (showEditModal && editPlaceholder.trim() ? validatePlaceholder(editPlaceholder.trim()) : undefined),
+    [showEditModal, editPlaceholder]
+  );
+
+  const editPatternError = useMemo(
+    () => (rule.type === 'keyvalue' && showEditModal && editContext.shape === 'custom'
+      ? validateValuePattern(editContext.pattern ?? '', rule.caseSensitive)
+      : undefined),
+    [rule.type, rule.caseSensitive, showEditModal, editContext]
+  );
 
   const handleToggle = () => {
     onUpdate(rule.id, { enabled: !rule.enabled });
@@ -34,6 +108,122 @@ export const RuleItem: React.FC<RuleItemProps> = ({
     setShowDeleteModal(false);
   };
 
+  const openEditModal = () => {
+    setEditOriginal(rule.original);
+    setEditPlaceholder(rule.placeholder);
+    setEditName(rule.name ?? '');
+    setEditBoundary(rule.boundary ?? 'none');
+    setEditBoundaryChars(rule.boundaryChars ?? '');
+    setEditNormalize(rule.normalize ?? false);
+    setEditInCode(rule.inCode ?? 'identifier');
+    setEditMatchEncoded(rule.matchEncoded ?? false);
+    setEditTerms(null);
+    setEditTransform(rule.transform);
+    setEditContext(rule.context ?? { shape: 'any', window: DEFAULT_CONTEXT_WINDOW });
+    setEditExceptions(rule.exceptions ?? []);
+    setEditShouldMatch((rule.shouldMatch ?? []).join('\n'));
+    setEditShouldNotMatch((rule.shouldNotMatch ?? []).join('\n'));
+    setShowEditModal(true);
+
+    // Term lists can be large, so they are only read when a dictionary is edited
+    if (rule.type === 'dictionary') {
+      getDictionaryTerms(rule.id).then((terms) => setEditTerms(terms.join('\n')));
+    }
+  };
+
+  // Parsed once per change, so the examples check below reuses the dictionary's automaton
+  const editTermList = useMemo(() => (editTerms === null ? null : parseTerms(editTerms)), [editTerms]);
+
+  const hasTerms = rule.type !== 'dictionary' || (editTermList !== null && editTermList.length > 0);
+  const canSaveEdit = editPlaceholder.trim() !== ''
+    && (rule.type === 'detector' || editOriginal.trim() !== '')
+    && hasTerms
+    && (rule.type !== 'keyvalue' || parseKeywords(editOriginal).length > 0)
+    && !editRegexError
+    && !editPatternError
+    && !editDomainError
+    && !editPlaceholderError
+    && areExceptionsValid(editExceptions);
+
+  const editUsesRuleName = editPlaceholder.includes('{{ruleName}}');
+
+  // Rebuilt only when a field changes, so re-renders from elsewhere don't re-run the examples below
+  const editUpdates = useMemo((): Partial<Rule> => {
+    const exceptions = withoutBlankExceptions(editExceptions);
+    const shouldMatch = parseExamples(editShouldMatch);
+    const shouldNotMatch = parseExamples(editShouldNotMatch);
+    const updates: Partial<Rule> = {
+      placeholder: editPlaceholder.trim(),
+      transform: editTransform,
+      inCode: editInCode,
+      exceptions: exceptions.length > 0 ? exceptions : undefined,
+      shouldMatch: shouldMatch.length > 0 ? shouldMatch : undefined,
+      shouldNotMatch: shouldNotMatch.length > 0 ? shouldNotMatch : undefined,
+    };
+
+    if (editUsesRuleName) {
+      updates.name = editName.trim() || undefined;
+    }
+
+    if (rule.type !== 'detector' && rule.type !== 'domain') {
+      updates.original = editOriginal.trim();
+      updates.normalize = editNormalize;
+    }
+    if (rule.type === 'domain') {
+      updates.original = parseDomains(editOriginal).join(', ');
+    }
+    if (rule.type === 'exact') {
+      updates.matchEncoded = editMatchEncoded;
+    }
+    if (rule.type === 'exact' || rule.type === 'dictionary') {
+      updates.boundary = editBoundary;
+      updates.boundaryChars = editBoundary === 'custom' ? editBoundaryChars : undefined;
+    }
+    if (rule.type === 'keyvalue') {
+      const keywords = parseKeywords(editOriginal);
+      updates.original = keywords.join(', ');
+      updates.context = {
+        keywords,
+        shape: editContext.shape,
+        window: editContext.window,
+        ...(editContext.shape === 'custom' && { pattern: editContext.pattern?.trim() }),
+      };
+    }
+    if (rule.type === 'dictionary' && editTermList !== null) {
+      updates.terms = editTermList;
+    }
+    return updates;
+  }, [
+    rule.type,
+    editExceptions,
+    editShouldMatch,
+    editShouldNotMatch,
+    editPlaceholder,
+    editTransform,
+    editInCode,
+    editUsesRuleName,
+    editName,
+    editOriginal,
+    editNormalize,
+    editMatchEncoded,
+    editBoundary,
+    editBoundaryChars,
+    editContext,
+    editTermList,
+  ]);
+
+  // Check the examples against the draft, so a change that breaks one shows before it is saved
+  const canCheckExamples = showEditModal && canSaveEdit && !!(editShouldMatch.trim() || editShouldNotMatch.trim());
+  const editExampleResults = useMemo(
+    () => (canCheckExamples ? checkExamples({ ...rule, ...editUpdates }) : []),
+    [canCheckExamples, rule, editUpdates]
+  );
+
+  const handleSaveEdit = () => {
+    onUpdate(rule.id, editUpdates);
+    setShowEditModal(false);
+  };
+
   const handleRowClick = () => {
     if (isSelectMode && onToggleSelect) {
       onToggleSelect(rule.id);
@@ -67,7 +257,7 @@ export const RuleItem: React.FC<RuleItemProps> = ({
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-1">
               <span className="font-mono text-sm text-gray-900 dark:text-white">
-                {rule.original}
+                {originalLabel}
               </span>
               <span className="text-gray-400 dark:text-gray-600">→</span>
               <span className="font-mono text-sm text-gray-700 dark:text-gray-300">
@@ -78,6 +268,114 @@ export const RuleItem: React.FC<RuleItemProps> = ({
               <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
                 {rule.type}
               </span>
+              {rule.type === 'dictionary' && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  {rule.termCount ?? 0} term{rule.termCount !== 1 ? 's' : ''}
+                </span>
+              )}
+              {rule.context && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  {rule.context.shape === 'custom'
+                    ? <span className="font-mono">{rule.context.pattern}</span>
+                    : VALUE_SHAPES.find((info) => info.shape === rule.context?.shape)?.label.toLowerCase()}
+                  {' '}within {rule.context.window} chars
+                </span>
+              )}
+              {rule.detectorOptions?.minLength !== undefined && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  min {rule.detectorOptions.minLength} chars · {rule.detectorOptions.threshold} bits
+                </span>
+              )}
+              {rule.detectorOptions?.confidence !== undefined && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  confidence ≥ {rule.detectorOptions.confidence}
+                  {rule.detectorOptions.allowlist?.length ? ` · ${rule.detectorOptions.allowlist.length} allowed` : ''}
+                </span>
+              )}
+              {rule.detectorOptions?.keys && (
+                <span
+                  className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                  title={rule.detectorOptions.keys.join(', ')}
+                >
+                  {rule.detectorOptions.keys.length} secret key{rule.detectorOptions.keys.length !== 1 ? 's' : ''}
+                  {rule.detectorOptions.columns?.length ? ` · columns ${rule.detectorOptions.columns.join(', ')}` : ''}
+                </span>
+              )}
+              {rule.detectorOptions?.params && (
+                <span
+                  className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                  title={[...(rule.detectorOptions.domains ?? []), ...rule.detectorOptions.params].join(', ')}
+                >
+                  {rule.detectorOptions.domains?.length ?? 0} domain{rule.detectorOptions.domains?.length !== 1 ? 's' : ''}
+                  {' · '}{rule.detectorOptions.params.length} param{rule.detectorOptions.params.length !== 1 ? 's' : ''}
+                  {rule.detectorOptions.stripParams ? ' removed' : ''}
+                </span>
+              )}
+              {rule.exceptions && rule.exceptions.length > 0 && (
+                <span
+                  className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                  title={rule.exceptions.map(describeException).join('\n')}
+                >
+                  {rule.exceptions.length} exception{rule.exceptions.length !== 1 ? 's' : ''}
+                </span>
+              )}
+              {exampleCount > 0 && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  {exampleCount} example{exampleCount !== 1 ? 's' : ''}
+                </span>
+              )}
+              {rule.detectorOptions?.reportOnly && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  report only
+                </span>
+              )}
+              {rule.boundary === 'word' && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  whole word
+                </span>
+              )}
+              {rule.boundary === 'custom' && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  delimiters: <span className="font-mono">{rule.boundaryChars || 'whitespace'}</span>
+                </span>
+              )}
+              {rule.transform && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  {isOneWay(rule.transform) ? 'mask: ' : ''}{getTransform(rule.transform.kind)?.label.toLowerCase() ?? rule.transform.kind}
+                  {rule.transform.kind === 'keepLast' && ` (${rule.transform.keep ?? DEFAULT_KEEP_LAST})`}
+                </span>
+              )}
+              {rule.normalize && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  disguise-aware
+                </span>
+              )}
+              {rule.matchEncoded && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  + encoded
+                </span>
+              )}
+              {rule.inCode && rule.inCode !== 'identifier' && (
+                <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                  {rule.inCode === 'skip' ? 'skips code' : 'same placeholder in code'}
+                </span>
+              )}
+              {rule.health?.status === 'too-slow' && (
+                <span
+                  className="px-2 py-0.5 bg-gray-900 text-white dark:bg-white dark:text-gray-900 rounded"
+                  title={`Took ${Math.round(rule.health.elapsedMs)}ms ${rule.health.source === 'runtime' ? 'while redacting' : 'on test input when saved'}. Edit the pattern or turn the rule back on to retry.`}
+                >
+                  disabled: too slow
+                </span>
+              )}
+              {unsafePattern && (
+                <span
+                  className="px-2 py-0.5 bg-gray-900 text-white dark:bg-white dark:text-gray-900 rounded"
+                  title={unsafePattern}
+                >
+                  unsafe pattern, not run
+                </span>
+              )}
               {rule.caseSensitive && (
                 <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
                   case-sensitive
@@ -91,6 +389,13 @@ export const RuleItem: React.FC<RuleItemProps> = ({
           {!isSelectMode && (
             <>
               <Toggle checked={rule.enabled} onChange={handleToggle} />
+              <Button
+                variant="secondary"
+                onClick={openEditModal}
+                className="!px-3 !py-1 text-sm"
+              >
+                Edit
+              </Button>
               <Button
                 variant="danger"
                 onClick={() => setShowDeleteModal(true)}
@@ -103,6 +408,106 @@ export const RuleItem: React.FC<RuleItemProps> = ({
         </div>
       </div>
 
+      <Modal
+        isOpen={showEditModal}
+        onClose={() => setShowEditModal(false)}
+        title="Edit Rule"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setShowEditModal(false)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSaveEdit} disabled={!canSaveEdit}>
+              Save
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          {rule.type === 'keyvalue' && (
+            <ContextFields
+              keywords={editOriginal}
+              context={editContext}
+              onKeywordsChange={setEditOriginal}
+              onContextChange={setEditContext}
+              patternError={editPatternError}
+            />
+          )}
+          {rule.type !== 'detector' && rule.type !== 'keyvalue' && (
+            <Input
+              label={rule.type === 'regex'
+                ? 'Pattern'
+                : rule.type === 'dictionary' ? 'Dictionary Name' : rule.type === 'domain' ? 'Domains' : 'Original Text'}
+              value={editOriginal}
+              onChange={(e) => setEditOriginal(e.target.value)}
+              className="font-mono"
+              error={editRegexError ?? editDomainError}
+            />
+          )}
+          {rule.type === 'dictionary' && (
+            editTerms === null ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading terms...</p>
+            ) : (
+              <TermsField value={editTerms} onChange={setEditTerms} />
+            )
+          )}
+          <Input
+            label="Placeholder"
+            value={editPlaceholder}
+            onChange={(e) => setEditPlaceholder(e.target.value)}
+            className="font-mono"
+            error={editPlaceholderError}
+          />
+          {editUsesRuleName && (
+            <Input
+              label="Rule Name"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+            />
+          )}
+          <TransformFields transform={editTransform} onChange={setEditTransform} />
+          <PlaceholderPreview
+            placeholder={editPlaceholder}
+            type={rule.type}
+            original={rule.type === 'detector' ? rule.original : editOriginal}
+            name={editName}
+            caseSensitive={rule.caseSensitive}
+            transform={editTransform}
+          />
+          {(rule.type === 'exact' || rule.type === 'dictionary') && (
+            <BoundaryFields
+              boundary={editBoundary}
+              boundaryChars={editBoundaryChars}
+              onBoundaryChange={setEditBoundary}
+              onBoundaryCharsChange={setEditBoundaryChars}
+            />
+          )}
+          {rule.type !== 'detector' && rule.type !== 'domain' && (
+            <Checkbox
+              label="Catch disguised variants (look-alike letters, hidden characters, full-width text)"
+              checked={editNormalize}
+              onChange={setEditNormalize}
+            />
+          )}
+          {rule.type === 'exact' && (
+            <Checkbox
+              label="Also catch it base64, URL-encoded or hex encoded, e.g. in a Basic auth header"
+              checked={editMatchEncoded}
+              onChange={setEditMatchEncoded}
+            />
+          )}
+          <CodeModeField value={editInCode} onChange={setEditInCode} />
+          <ExceptionsField exceptions={editExceptions} onChange={setEditExceptions} />
+          <ExamplesField
+            shouldMatch={editShouldMatch}
+            shouldNotMatch={editShouldNotMatch}
+            onShouldMatchChange={setEditShouldMatch}
+            onShouldNotMatchChange={setEditShouldNotMatch}
+            results={editExampleResults}
+          />
+        </div>
+      </Modal>
+
       <Modal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
@@ -123,7 +528,7 @@ export const RuleItem: React.FC<RuleItemProps> = ({
         </p>
         <div className="mt-4 p-3 bg-gray-100 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
           <p className="font-mono text-sm text-gray-900 dark:text-gray-100">
-            {rule.original} → {rule.placeholder}
+            {originalLabel} → {rule.placeholder}
           </p>
         </div>
       </Modal>
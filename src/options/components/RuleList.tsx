@@ -7,6 +7,15 @@ import { Modal } from '../../components/Modal';
 import { Checkbox } from '../../components/Checkbox';
 import type { Rule, RuleType } from '../../types';
 
+const RULE_GROUPS: { type: RuleType; label: string }[] = [
+  { type: 'exact', label: 'Exact Match' },
+  { type: 'dictionary', label: 'Dictionaries' },
+  { type: 'regex', label: 'Regex' },
+  { type: 'keyvalue', label: 'Context Rules' },
+  { type: 'domain', label: 'Domains' },
+  { type: 'detector', label: 'Detectors' },
+];
+
 interface RuleListProps {
   rules: Rule[];
   onUpdate: (id: string, updates: Partial<Rule>) => void;
@@ -64,12 +73,10 @@ export const RuleList: React.FC<RuleListProps> = ({
   }
 
   // Group rules by type and sort by priority
-  const exactRules = rules
-    .filter((r) => r.type === 'exact')
-    .sort((a, b) => a.priority - b.priority);
-  const regexRules = rules
-    .filter((r) => r.type === 'regex')
-    .sort((a, b) => a.priority - b.priority);
+  const rulesOfType = (type: RuleType) =>
+    rules
+      .filter((r) => r.type === type)
+      .sort((a, b) => a.priority - b.priority);
 
   const selectedRules = rules.filter((r) => selectedIds.has(r.id));
 
@@ -86,9 +93,8 @@ export const RuleList: React.FC<RuleListProps> = ({
     });
   };
 
-  const selectAllOfType = (type: 'exact' | 'regex') => {
-    const typeRules = type === 'exact' ? exactRules : regexRules;
-    const typeIds = typeRules.map((r) => r.id);
+  const selectAllOfType = (type: RuleType) => {
+    const typeIds = rulesOfType(type).map((r) => r.id);
     const allSelected = typeIds.every((id) => selectedIds.has(id));
 
     setSelectedIds((prev) => {
@@ -219,9 +225,7 @@ export const RuleList: React.FC<RuleListProps> = ({
 
     // Combine with other type rules
     const otherTypeRules = rules.filter((r) => r.type !== draggedRule.type);
-    const finalRules = draggedRule.type === 'exact'
-      ? [...updatedReordered, ...otherTypeRules]
-      : [...otherTypeRules, ...updatedReordered];
+    const finalRules = [...otherTypeRules, ...updatedReordered];
 
     onReorder(finalRules);
     setDraggedItem(null);
@@ -232,11 +236,6 @@ export const RuleList: React.FC<RuleListProps> = ({
     setDragOverItem(null);
   };
 
-  const allExactSelected = exactRules.length > 0 && exactRules.every((r) => selectedIds.has(r.id));
-  const allRegexSelected = regexRules.length > 0 && regexRules.every((r) => selectedIds.has(r.id));
-  const someExactSelected = exactRules.some((r) => selectedIds.has(r.id));
-  const someRegexSelected = regexRules.some((r) => selectedIds.has(r.id));
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -252,103 +251,61 @@ export const RuleList: React.FC<RuleListProps> = ({
         </Button>
       </div>
 
-      {/* Exact Match Rules */}
-      {exactRules.length > 0 && (
-        <div>
-          <div className="flex items-center justify-between mb-3 px-1">
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
-              {isSelectMode && (
-                <Checkbox
-                  checked={allExactSelected}
-                  indeterminate={someExactSelected && !allExactSelected}
-                  onChange={() => selectAllOfType('exact')}
-                />
-              )}
-              Exact Match ({exactRules.length})
-            </h3>
+      {RULE_GROUPS.map(({ type, label }) => {
+        const groupRules = rulesOfType(type);
+        if (groupRules.length === 0) return null;
+
+        const allSelected = groupRules.every((r) => selectedIds.has(r.id));
+        const someSelected = groupRules.some((r) => selectedIds.has(r.id));
+
+        return (
+          <div key={type}>
+            <div className="flex items-center justify-between mb-3 px-1">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                {isSelectMode && (
+                  <Checkbox
+                    checked={allSelected}
+                    indeterminate={someSelected && !allSelected}
+                    onChange={() => selectAllOfType(type)}
+                  />
+                )}
+                {label} ({groupRules.length})
+              </h3>
+            </div>
+            <div className="space-y-3">
+              {groupRules.map((rule) => (
+                <div
+                  key={rule.id}
+                  draggable={!isSelectMode}
+                  onDragStart={(e) => handleDragStart(e, rule.id)}
+                  onDragOver={handleDragOver}
+                  onDragEnter={() => handleDragEnter(rule.id)}
+                  onDragLeave={handleDragLeave}
+                  onDrop={(e) => handleDrop(e, rule.id)}
+                  onDragEnd={handleDragEnd}
+                  className={`transition-all ${
+                    draggedItem === rule.id
+                      ? 'opacity-50'
+                      : dragOverItem === rule.id
+                        ? 'ring-2 ring-blue-500 rounded-lg'
+                        : ''
+                  }`}
+                >
+                  <RuleItem
+                    rule={rule}
+                    onUpdate={onUpdate}
+                    onDelete={onDelete}
+                    isDragging={draggedItem === rule.id}
+                    isSelectMode={isSelectMode}
+                    isSelected={selectedIds.has(rule.id)}
+                    onToggleSelect={toggleSelection}
+                  />
+                </div>
+              ))}
+            </div>
           </div>
-          <div className="space-y-3">
-            {exactRules.map((rule) => (
-              <div
-                key={rule.id}
-                draggable={!isSelectMode}
-                onDragStart={(e) => handleDragStart(e, rule.id)}
-                onDragOver={handleDragOver}
-                onDragEnter={() => handleDragEnter(rule.id)}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, rule.id)}
-                onDragEnd={handleDragEnd}
-                className={`transition-all ${
-                  draggedItem === rule.id
-                    ? 'opacity-50'
-                    : dragOverItem === rule.id
-                      ? 'ring-2 ring-blue-500 rounded-lg'
-                      : ''
-                }`}
-              >
-                <RuleItem
-                  rule={rule}
-                  onUpdate={onUpdate}
-                  onDelete={onDelete}
-                  isDragging={draggedItem === rule.id}
-                  isSelectMode={isSelectMode}
-                  isSelected={selectedIds.has(rule.id)}
-                  onToggleSelect={toggleSelection}
-                />
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
-
-      {/* Regex Rules */}
-      {regexRules.length > 0 && (
-        <div>
-          <div className="flex items-center justify-between mb-3 px-1">
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
-              {isSelectMode && (
-                <Checkbox
-                  checked={allRegexSelected}
-                  indeterminate={someRegexSelected && !allRegexSelected}
-                  onChange={() => selectAllOfType('regex')}
-                />
-              )}
-              Regex ({regexRules.length})
-            </h3>
-          </div>
-          <div className="space-y-3">
-            {regexRules.map((rule) => (
-              <div
-                key={rule.id}
-                draggable={!isSelectMode}
-                onDragStart={(e) => handleDragStart(e, rule.id)}
-                onDragOver={handleDragOver}
-                onDragEnter={() => handleDragEnter(rule.id)}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, rule.id)}
-                onDragEnd={handleDragEnd}
-                className={`transition-all ${
-                  draggedItem === rule.id
-                    ? 'opacity-50'
-                    : dragOverItem === rule.id
-                      ? 'ring-2 ring-blue-500 rounded-lg'
-                      : ''
-                }`}
-              >
-                <RuleItem
-                  rule={rule}
-                  onUpdate={onUpdate}
-                  onDelete={onDelete}
-                  isDragging={draggedItem === rule.id}
-                  isSelectMode={isSelectMode}
-                  isSelected={selectedIds.has(rule.id)}
-                  onToggleSelect={toggleSelection}
-                />
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+        );
+      })}
 
       {/* Add padding at bottom when bulk actions bar is visible */}
       {selectedIds.size > 0 && <div className="h-16" />}
@@ -1,27 +1,85 @@
 import React, { useState } from 'react';
 import { Button } from '../../components/Button';
-import { redact } from '../../content-scripts/shared/redactor';
-import type { Rule } from '../../types';
+import { CompiledRuleSet, redact } from '../../content-scripts/shared/redactor';
+import { RedactionVault } from '../../content-scripts/shared/redaction-vault';
+import { getDetector } from '../../content-scripts/shared/detectors';
+import { describeException } from '../../content-scripts/shared/exceptions';
+import { ENCODING_LABELS } from '../../content-scripts/shared/encodings';
+import { runRuleTests, type RuleTestReport } from '../../content-scripts/shared/rule-tests';
+import { hydrateDictionaries } from '../../lib/dictionaryStorage';
+import { decodePseudonymKey, ensurePseudonymKey } from '../../lib/pseudonymKey';
+import type { Detection, ExceptionHit, RedactionMatch, Rule, RuleException } from '../../types';
 
 interface RuleTesterProps {
   rules: Rule[];
+  exceptions: RuleException[];
 }
 
-export const RuleTester: React.FC<RuleTesterProps> = ({ rules }) => {
+/**
+ * Short label of a rule for the tester's result lists
+ */
+function ruleLabel(rule: Rule | undefined): string {
+  if (!rule) {
+    return 'Unknown rule';
+  }
+  return rule.name ?? (rule.type === 'detector' ? getDetector(rule.original)?.label ?? rule.original : rule.original);
+}
+
+/**
+ * Split redacted text into plain runs and replacements, so replacements can be highlighted
+ */
+function outputSegments(text: string, matches: RedactionMatch[]): { text: string; match?: RedactionMatch }[] {
+  const segments: { text: string; match?: RedactionMatch }[] = [];
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.outputStart > cursor) {
+      segments.push({ text: text.slice(cursor, match.outputStart) });
+    }
+    segments.push({ text: text.slice(match.outputStart, match.outputEnd), match });
+    cursor = match.outputEnd;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+  return segments;
+}
+
+export const RuleTester: React.FC<RuleTesterProps> = ({ rules, exceptions }) => {
   const [inputText, setInputText] = useState('');
   const [outputText, setOutputText] = useState('');
   const [appliedRulesCount, setAppliedRulesCount] = useState(0);
+  const [matches, setMatches] = useState<RedactionMatch[]>([]);
+  const [firedDetectors, setFiredDetectors] = useState<string[]>([]);
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [exceptionHits, setExceptionHits] = useState<ExceptionHit[]>([]);
 
-  const handleTest = () => {
-    const result = redact(inputText, rules);
+  const handleTest = async () => {
+    // Use the real key so pseudonyms match what the sites get
+    const vault = new RedactionVault();
+    vault.setPseudonymKey(decodePseudonymKey(await ensurePseudonymKey()));
+    const ruleSet = new CompiledRuleSet(await hydrateDictionaries(rules), { exceptions });
+    const result = redact(inputText, ruleSet, vault);
     setOutputText(result.text);
     setAppliedRulesCount(result.appliedRules.length);
+    setMatches(result.matches);
+
+    // Name the detectors that fired so users can tell what was recognized
+    const detectorNames = rules
+      .filter((rule) => rule.type === 'detector' && result.appliedRules.includes(rule.id))
+      .map((rule) => getDetector(rule.original)?.label ?? rule.original);
+    setFiredDetectors(Array.from(new Set(detectorNames)));
+    setDetections(result.detections ?? []);
+    setExceptionHits(result.exceptions ?? []);
   };
 
   const handleClear = () => {
     setInputText('');
     setOutputText('');
     setAppliedRulesCount(0);
+    setMatches([]);
+    setFiredDetectors([]);
+    setDetections([]);
+    setExceptionHits([]);
   };
 
   return (
@@ -58,8 +116,152 @@ export const RuleTester: React.FC<RuleTesterProps> = ({ rules }) => {
               Output ({appliedRulesCount} rule{appliedRulesCount !== 1 ? 's' : ''} applied)
             </label>
             <div className="input-field min-h-[100px] bg-gray-50 dark:bg-gray-800 whitespace-pre-wrap text-gray-900 dark:text-gray-100">
-              {outputText}
+              {outputSegments(outputText, matches).map((segment, index) =>
+                segment.match ? (
+                  <mark
+                    key={index}
+                    className="rounded bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    title={`${segment.match.text} → ${ruleLabel(rules.find((rule) => rule.id === segment.match?.ruleId))}`}
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                )
+              )}
             </div>
+            {matches.length > 0 && (
+              <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                <span>Replacements:</span>
+                {matches.map((match) => (
+                  <div key={match.start} className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-gray-700 dark:text-gray-300">{match.text}</span>
+                    <span>→</span>
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded font-mono text-gray-700 dark:text-gray-300">
+                      {match.replacement}
+                    </span>
+                    <span>
+                      {ruleLabel(rules.find((rule) => rule.id === match.ruleId))} · chars {match.start}–{match.end}
+                      {match.encoding && ` · found ${ENCODING_LABELS[match.encoding]}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {firedDetectors.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <span>Detectors fired:</span>
+                {firedDetectors.map((name) => (
+                  <span
+                    key={name}
+                    className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                  >
+                    {name}
+                  </span>
+                ))}
+              </div>
+            )}
+            {detections.length > 0 && (
+              <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                <span>Names detected:</span>
+                {detections.map((detection) => (
+                  <div key={`${detection.ruleId}:${detection.start}`} className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                      {detection.text}
+                    </span>
+                    <span>
+                      {Math.round(detection.confidence * 100)}% · {detection.redacted ? 'redacted' : 'not redacted'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {exceptionHits.length > 0 && (
+              <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                <span>Kept by exceptions:</span>
+                {exceptionHits.map((hit) => (
+                  <div key={`${hit.ruleId}:${hit.start}`} className="flex flex-wrap items-center gap-2">
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300">
+                      {hit.text}
+                    </span>
+                    <span>
+                      {ruleLabel(rules.find((rule) => rule.id === hit.ruleId))} · {describeException(hit.exception)}
+                      {' '}({hit.global ? 'global' : 'rule'} exception)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Runs every rule's should-match and should-not-match examples against the whole rule set
+ */
+export const RuleTestRunner: React.FC<RuleTesterProps> = ({ rules, exceptions }) => {
+  const [reports, setReports] = useState<RuleTestReport[] | null>(null);
+
+  const handleRun = async () => {
+    setReports(runRuleTests(await hydrateDictionaries(rules), exceptions));
+  };
+
+  const ran = reports?.filter((report) => !report.skipped) ?? [];
+  const passedCount = ran.filter((report) => report.passed).length;
+
+  return (
+    <div className="card mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Rule Tests
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Checks the examples saved on each rule against all enabled rules and exceptions, as they run on the sites.
+      </p>
+
+      <div className="space-y-4">
+        <Button onClick={handleRun} variant="primary">
+          Run Rule Tests
+        </Button>
+
+        {reports && reports.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No rule has examples yet. Add them when creating or editing a rule.
+          </p>
+        )}
+
+        {reports && reports.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {passedCount} of {ran.length} rule{ran.length !== 1 ? 's' : ''} passed
+            </p>
+            {reports.map((report) => {
+              const rule = rules.find((candidate) => candidate.id === report.ruleId);
+              return (
+                <div key={report.ruleId} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-xs text-gray-700 dark:text-gray-300">
+                      {report.skipped ? 'skipped' : report.passed ? 'pass' : 'fail'}
+                    </span>
+                    <span className="font-mono text-gray-900 dark:text-gray-100">{ruleLabel(rule)}</span>
+                    {report.skipped && <span className="text-xs text-gray-500 dark:text-gray-400">(disabled)</span>}
+                  </div>
+                  {report.results.filter((result) => !result.passed).map((result) => (
+                    <p key={`${result.expected}:${result.example}`} className="ml-4 mt-1 text-xs text-gray-600 dark:text-gray-400">
+                      <span className="font-mono">{result.example}</span>
+                      {' '}
+                      {result.expected === 'match'
+                        ? result.matchedBy.length > 0
+                          ? `was redacted by ${result.matchedBy.map((id) => ruleLabel(rules.find((candidate) => candidate.id === id))).join(', ')} instead`
+                          : 'was not matched'
+                        : 'was matched but should not be'}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
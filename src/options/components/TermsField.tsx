@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { Button } from '../../components/Button';
+import { parseTerms } from '../../lib/dictionaryStorage';
+
+interface TermsFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+}
+
+export const TermsField: React.FC<TermsFieldProps> = ({ value, onChange, error }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const termCount = parseTerms(value).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    onChange(value.trim() ? `${value.trimEnd()}\n${content}` : content);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
+        Terms
+      </label>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`input-field min-h-[120px] resize-y font-mono text-sm ${error ? 'border-gray-700 dark:border-gray-600' : ''}`}
+        placeholder={'One term per line, e.g.\nAcme Corp\nProject Falcon'}
+      />
+      {error && (
+        <p className="mt-1 text-sm text-gray-700 dark:text-gray-400">{error}</p>
+      )}
+      <div className="mt-2 flex items-center justify-between">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {termCount} unique term{termCount !== 1 ? 's' : ''}
+        </span>
+        <Button type="button" variant="secondary" onClick={() => fileInputRef.current?.click()}>
+          Load from file
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.csv,text/plain"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Input } from '../../components/Input';
+import { Select } from '../../components/Select';
+import { DEFAULT_KEEP_LAST, getTransform, isOneWay, TRANSFORMS } from '../../content-scripts/shared/transforms';
+import { SURROGATE_CATEGORIES } from '../../content-scripts/shared/surrogates';
+import type { RuleTransform, SurrogateCategory, TransformKind } from '../../types';
+
+interface TransformFieldsProps {
+  transform?: RuleTransform;
+  onChange: (transform: RuleTransform | undefined) => void;
+}
+
+export const TransformFields: React.FC<TransformFieldsProps> = ({ transform, onChange }) => {
+  const handleKindChange = (kind: string) => {
+    if (!kind) {
+      onChange(undefined);
+      return;
+    }
+    if (kind === 'keepLast') {
+      onChange({ kind, keep: DEFAULT_KEEP_LAST });
+    } else if (kind === 'surrogate') {
+      onChange({ kind, category: 'name' });
+    } else {
+      onChange({ kind: kind as TransformKind });
+    }
+  };
+
+  const info = transform && getTransform(transform.kind);
+
+  return (
+    <div className="space-y-3">
+      <Select
+        label="Replacement"
+        value={transform?.kind ?? ''}
+        onChange={(e) => handleKindChange(e.target.value)}
+        options={[
+          { value: '', label: 'Placeholder' },
+          ...TRANSFORMS.map((option) => ({
+            value: option.kind,
+            label: isOneWay({ kind: option.kind }) ? `Mask: ${option.label.toLowerCase()}` : option.label,
+          })),
+        ]}
+      />
+      {transform?.kind === 'keepLast' && (
+        <Input
+          label="Characters to keep"
+          type="number"
+          min={1}
+          max={12}
+          value={String(transform.keep ?? DEFAULT_KEEP_LAST)}
+          onChange={(e) => onChange({ kind: 'keepLast', keep: Number(e.target.value) || DEFAULT_KEEP_LAST })}
+        />
+      )}
+      {transform?.kind === 'surrogate' && (
+        <Select
+          label="Fake Value"
+          value={transform.category ?? 'name'}
+          onChange={(e) => onChange({ kind: 'surrogate', category: e.target.value as SurrogateCategory })}
+          options={SURROGATE_CATEGORIES.map((option) => ({ value: option.category, label: `${option.label}, e.g. ${option.example}` }))}
+        />
+      )}
+      {transform && info && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {info.description}.{' '}
+          {isOneWay(transform)
+            ? "Masks can't be restored when you copy a response; the placeholder is used when the mask doesn't fit the value."
+            : transform.kind === 'pseudonym'
+              ? 'Exact and dictionary values are restored in any conversation; other values only in the page session that saw them. The key is created on this device and never leaves it.'
+              : transform.kind === 'surrogate'
+              ? 'Copied responses get the real values back wherever the AI uses a fake one, including just a first or last name.'
+              : 'Copied responses are shifted back, including values the AI worked out from shifted ones. The offset is picked per page session and never leaves it.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 // Export all types from a central location
-export type { Rule, RuleType, RedactionResult } from './rules';
+export type { Rule, RuleType, RuleHealth, RuleTransform, TransformKind, SurrogateCategory, ContextOptions, ValueShape, BoundaryMode, CodeMode, Encoding, DetectorOptions, Detection, ExceptionKind, RuleException, ExceptionHit, RedactionMatch, RedactionResult } from './rules';
 export type {
   SupportedSite,
   SiteSettings,
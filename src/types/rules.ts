@@ -1,18 +1,121 @@
-export type RuleType = 'exact' | 'regex';
+export type RuleType = 'exact' | 'regex' | 'detector' | 'dictionary' | 'keyvalue' | 'domain';
+
+export type BoundaryMode = 'none' | 'word' | 'custom';
+
+export interface DetectorOptions {
+  minLength?: number;            // Shortest token considered (high-entropy detector)
+  threshold?: number;            // Minimum Shannon entropy in bits per character of long base64 tokens, scaled for short and hex ones
+  allowUuids?: boolean;          // Never flag UUIDs
+  allowCommitHashes?: boolean;   // Never flag 40-character hex commit hashes
+  confidence?: number;           // Minimum score from 0 to 1 for a match (person-name detector)
+  allowlist?: string[];          // Names never flagged, compared case-insensitively
+  reportOnly?: boolean;          // Report matches without redacting them
+  keys?: string[];               // Parts of key names whose values are secret (config-secrets detector)
+  columns?: string[];            // CSV headers whose whole column is redacted
+  domains?: string[];            // Internal domains whose hosts are redacted, `*` for part of a label (url detector)
+  params?: string[];             // Query parameter names to redact, `*` at the end for any suffix
+  stripParams?: boolean;         // Remove those parameters instead of redacting their values
+}
+
+export type Encoding = 'base64' | 'percent' | 'hex';
+
+export type CodeMode = 'identifier' | 'placeholder' | 'skip';
+
+export type ValueShape = 'any' | 'word' | 'digits' | 'custom';
+
+export interface ContextOptions {
+  keywords: string[];            // Trigger words or phrases, e.g. "password", "api key"
+  shape: ValueShape;             // What the value after a keyword looks like
+  pattern?: string;              // Value regex for the 'custom' shape
+  window: number;                // Most characters between the end of a keyword and its value, on the same line
+}
+
+export type ExceptionKind = 'value' | 'pattern' | 'precededBy' | 'followedBy';
+
+export interface RuleException {
+  id: string;                    // UUID v4
+  kind: ExceptionKind;           // What is compared: the matched text, or the text right before or after it
+  value: string;                 // Text to compare, or a regex the whole match must fit for 'pattern'
+  caseSensitive?: boolean;       // Defaults to false
+}
+
+export type TransformKind = 'keepLast' | 'keepDomain' | 'initials' | 'keepLength' | 'dateShift' | 'amountScale' | 'surrogate' | 'pseudonym';
+
+export type SurrogateCategory = 'name' | 'email' | 'company' | 'city' | 'phone';
+
+export interface RuleTransform {
+  kind: TransformKind;           // How the matched value is masked or shifted instead of replaced by the placeholder
+  keep?: number;                 // Characters left visible by 'keepLast' (defaults to 4)
+  category?: SurrogateCategory;  // Kind of fake value used by 'surrogate' (defaults to 'name')
+}
+
+export interface RuleHealth {
+  status: 'too-slow';            // Matching exceeded its time budget
+  source: 'runtime' | 'save';    // Caught while redacting on a site, or by the check when saving
+  elapsedMs: number;             // Time the rule took when it was flagged
+  flaggedAt: string;             // ISO 8601 timestamp
+}
 
 export interface Rule {
   id: string;                    // UUID v4
-  original: string;              // Original text to redact
-  placeholder: string;           // Replacement text
+  original: string;              // Original text to redact (detector ID for detectors, list name for dictionaries, keywords for keyvalue rules, domains for domain rules)
+  placeholder: string;           // Replacement text or template (`$1`, `{{ruleName}}`, `{{n}}`, `{{len}}`, `{{hash}}`)
+  name?: string;                 // Label used by `{{ruleName}}` in placeholder templates
   type: RuleType;                // Matching type
   enabled: boolean;              // Active status
   caseSensitive: boolean;        // Case sensitivity (for exact/regex)
+  boundary?: BoundaryMode;       // Where exact and dictionary matches may start and end (defaults to 'none')
+  boundaryChars?: string;        // Delimiters accepted around matches in 'custom' mode
+  normalize?: boolean;           // Also match homoglyph, zero-width and full-width variants (exact/regex/dictionary)
+  inCode?: CodeMode;             // What matches inside code blocks and pasted code become (defaults to 'identifier')
+  matchEncoded?: boolean;        // Also redact base64, percent-encoded and hex runs that decode to text containing the original (exact)
+  termCount?: number;            // Number of terms in a dictionary rule
+  terms?: string[];              // Dictionary terms, loaded from their own storage key at runtime and never saved in `rules`
+  detectorOptions?: DetectorOptions; // Tuning for detectors that support it
+  context?: ContextOptions;      // Keywords and value shape of keyvalue rules
+  exceptions?: RuleException[];  // Matches of this rule that are never redacted
+  shouldMatch?: string[];        // Example texts the rule must redact part of
+  shouldNotMatch?: string[];     // Example texts the rule must leave alone
+  transform?: RuleTransform;     // Mask or shift applied instead of the placeholder; masks are one-way
+  health?: RuleHealth;           // Set when the rule was disabled for being too slow
   priority: number;              // Priority order within rule type (lower = higher priority)
   createdAt: string;            // ISO 8601 timestamp
   updatedAt: string;            // ISO 8601 timestamp
 }
 
+export interface Detection {
+  ruleId: string;                // Rule whose detector matched
+  text: string;                  // Matched text
+  start: number;                 // Start offset in the input text (inclusive)
+  end: number;                   // End offset in the input text (exclusive)
+  confidence: number;            // Detector score from 0 to 1
+  redacted: boolean;             // False for report-only rules and matches another rule took over
+}
+
+export interface ExceptionHit {
+  ruleId: string;                // Rule whose match was kept
+  text: string;                  // Matched text left in place
+  start: number;                 // Start offset in the input text (inclusive)
+  end: number;                   // End offset in the input text (exclusive)
+  exception: RuleException;      // Exception that stopped the redaction
+  global: boolean;               // From the global list rather than the rule's own
+}
+
+export interface RedactionMatch {
+  ruleId: string;                // Rule that produced the replacement
+  start: number;                 // Start offset in the input text (inclusive)
+  end: number;                   // End offset in the input text (exclusive)
+  outputStart: number;           // Start offset of the replacement in the redacted text (inclusive)
+  outputEnd: number;             // End offset of the replacement in the redacted text (exclusive)
+  text: string;                  // Matched text
+  replacement: string;           // Placeholder, token, mask or surrogate put in its place
+  encoding?: Encoding;           // Set when the match is an encoded run holding an exact rule's original
+}
+
 export interface RedactionResult {
   text: string;                  // Redacted text
   appliedRules: string[];        // IDs of applied rules
+  matches: RedactionMatch[];     // Replacements made, in text order
+  detections?: Detection[];      // Scored detector matches, such as person names, in text order
+  exceptions?: ExceptionHit[];   // Matches left in place by an exception, in text order
 }
@@ -1,4 +1,4 @@
-import type { Rule } from './rules';
+import type { Rule, RuleException } from './rules';
 
 export type SupportedSite = 'chatgpt.com' | 'claude.ai' | 'chat.deepseek.com' | 'gemini.google.com';
 
@@ -22,6 +22,7 @@ export interface ExtensionSettings {
 
 export interface StorageData {
   rules: Rule[];
+  exceptions: RuleException[];   // Global exceptions, checked for every rule
   siteSettings: SiteSettingsMap;
   settings: ExtensionSettings;
 }